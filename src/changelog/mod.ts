@@ -0,0 +1,288 @@
+import type {
+  ChangelogOptions,
+  ParsedTitle,
+  Ticket,
+  TitleOptions,
+} from "../types/mod.ts";
+import {
+  DEFAULT_TITLE_OPTIONS,
+  extractPart,
+  formatTicket,
+  linkTicket,
+  parseFormattedTitle,
+  parseTitle,
+} from "../pr-title/mod.ts";
+import { renderTemplate } from "../template/mod.ts";
+
+export const DEFAULT_CHANGELOG_OPTIONS: ChangelogOptions = {
+  title: "Changelog",
+  ticketUrl: "",
+  noTicketTitle: "Other changes",
+};
+
+/**
+ * A merged PR, or every part of a multi-part PR
+ */
+export interface ChangelogEntry {
+  tickets: Ticket[];
+  feature: string;
+  /** Part numbers in ascending order, empty for single PRs */
+  parts: string[];
+  partTotal?: string;
+  /** Pull request numbers found at the end of the lines, e.g. "(#42)" */
+  pullRequests: string[];
+}
+
+/**
+ * Entries sharing a project key
+ */
+export interface ChangelogSection {
+  title: string;
+  entries: ChangelogEntry[];
+}
+
+// List markers and task boxes, e.g. "- ", "1. ", "* [x] "
+const BULLET_PATTERN = /^(?:[-*+]|\d+[.)])\s+(?:\[[ xX]\]\s+)?/;
+// Pull request reference added by GitHub to squash merges, e.g. "(#42)"
+const PULL_REQUEST_PATTERN = /\s*\(#(\d+)\)$/;
+
+/**
+ * Strips list markers and the trailing pull request number from a line
+ */
+function readLine(
+  rawLine: string,
+): { line: string; pullRequest?: RegExpMatchArray } {
+  const line = rawLine.trim().replace(BULLET_PATTERN, "");
+  const pullRequest = line.match(PULL_REQUEST_PATTERN) ?? undefined;
+  return pullRequest
+    ? { line: line.slice(0, pullRequest.index).trim(), pullRequest }
+    : { line };
+}
+
+/**
+ * Tells whether the input looks like a list of merged PRs: at least two
+ * lines, most of them titles already formatted with a preset. Raw text over
+ * several lines, such as a title followed by a note, is not a list.
+ * Examples:
+ * - "[MB-80] Fix login\n[no-ticket] Fix typo" -> true
+ * - "Mb 80 fix login\nAlso handles the retry case" -> false
+ */
+export function isTitleList(
+  input: string,
+  options: Partial<TitleOptions> = {},
+): boolean {
+  const lines = input.split(/\r\n|\r|\n/)
+    .map((rawLine) => readLine(rawLine).line)
+    .filter(Boolean);
+  const formatted = lines.filter((line) =>
+    parseFormattedTitle(line, options) !== undefined
+  );
+  return lines.length > 1 && formatted.length * 2 > lines.length;
+}
+
+/**
+ * Tells whether a ticket read from a title is a real one: its number is
+ * numeric and, when project keys are configured, its key is one of them.
+ * Without project keys, only tickets of formatted titles are trusted.
+ * Examples:
+ * - MB-80 (from "[MB-80] Fix") -> true
+ * - FIX-2 (from "Fix 2 bugs") -> false, unless FIX is a project key
+ * - UPDATE-DEPS (from "update deps") -> false
+ */
+function isRealTicket(
+  ticket: Ticket,
+  projectKeys: string[],
+  formatted: boolean,
+): boolean {
+  if (!/^\d+$/.test(ticket.number)) return false;
+  if (projectKeys.length === 0) return formatted;
+  return !ticket.key ||
+    projectKeys.some((key) => key.toUpperCase() === ticket.key);
+}
+
+/**
+ * Parses one line of the list. Titles whose first words are not a real
+ * ticket, e.g. "update deps", have no ticket rather than a made-up one.
+ */
+function parseLine(line: string, options: TitleOptions): ParsedTitle {
+  const formatted = parseFormattedTitle(line, options);
+  const parsed = formatted ?? parseTitle(line, options);
+  if (
+    parsed.tickets.every((ticket) =>
+      isRealTicket(ticket, options.projectKeys, formatted !== undefined)
+    )
+  ) {
+    return parsed;
+  }
+  const part = extractPart(line);
+  return {
+    tickets: [],
+    noTicket: true,
+    ...part.part ? { part: part.part } : {},
+    ...part.total ? { partTotal: part.total } : {},
+    feature: part.rest,
+    warnings: part.warnings,
+  };
+}
+
+/**
+ * Lists numbers from 1 to `total` missing from `parts`
+ */
+function missingParts(parts: string[], total: string): string[] {
+  return Array.from({ length: Number(total) }, (_, index) => String(index + 1))
+    .filter((part) => !parts.includes(part));
+}
+
+/**
+ * Reads a list of PR titles, one per line, merging the parts of multi-part
+ * PRs for the same tickets into a single entry. Lines may be raw titles,
+ * read like parsePRTitle does, or titles already formatted with any preset.
+ * Examples:
+ * - "[MB-80] [PART-1] Group by lot\n[MB-80] [PART-2] Group by lot" -> [{ tickets: [MB-80], parts: ["1", "2"] }]
+ * - "- MB-81 fix login (#42)" -> [{ tickets: [MB-81], feature: "fix login", pullRequests: ["42"] }]
+ * - "Fix 2 bugs" -> [{ tickets: [], feature: "Fix 2 bugs" }], unless FIX is a project key
+ */
+export function parseChangelog(
+  input: string,
+  options: Partial<TitleOptions> = {},
+): { entries: ChangelogEntry[]; warnings: string[] } {
+  const titleOptions = { ...DEFAULT_TITLE_OPTIONS, ...options };
+  const entries: ChangelogEntry[] = [];
+  const multiPart = new Map<string, ChangelogEntry>();
+  const warnings: string[] = [];
+
+  input.split(/\r\n|\r|\n/).forEach((rawLine, index) => {
+    const { line, pullRequest } = readLine(rawLine);
+    if (!line) return;
+
+    const parsed = parseLine(line, titleOptions);
+    for (const warning of parsed.warnings) {
+      warnings.push(`Line ${index + 1}: ${warning}`);
+    }
+    if (parsed.tickets.length === 0 && !parsed.feature) {
+      warnings.push(`Line ${index + 1}: no ticket or feature, skipped it`);
+      return;
+    }
+
+    const ids = parsed.tickets.map(formatTicket).join(", ");
+    const existing = parsed.part && ids ? multiPart.get(ids) : undefined;
+    if (existing && parsed.part) {
+      if (existing.parts.includes(parsed.part)) {
+        warnings.push(
+          `Line ${index + 1}: part ${parsed.part} of ${ids} is listed twice`,
+        );
+      } else {
+        existing.parts.push(parsed.part);
+        existing.parts.sort((a, b) => Number(a) - Number(b));
+        // The first part names the whole PR
+        if (existing.parts[0] === parsed.part && parsed.feature) {
+          existing.feature = parsed.feature;
+        }
+      }
+      if (parsed.partTotal) existing.partTotal ??= parsed.partTotal;
+      if (pullRequest) existing.pullRequests.push(pullRequest[1]);
+      return;
+    }
+
+    const entry: ChangelogEntry = {
+      tickets: parsed.tickets,
+      feature: parsed.feature,
+      parts: parsed.part ? [parsed.part] : [],
+      ...parsed.partTotal ? { partTotal: parsed.partTotal } : {},
+      pullRequests: pullRequest ? [pullRequest[1]] : [],
+    };
+    if (parsed.part && ids) multiPart.set(ids, entry);
+    entries.push(entry);
+  });
+
+  for (const [ids, entry] of multiPart) {
+    const missing = entry.partTotal
+      ? missingParts(entry.parts, entry.partTotal)
+      : [];
+    if (missing.length > 0) {
+      warnings.push(
+        `${ids}: ${missing.length > 1 ? "parts" : "part"} ${
+          missing.join(", ")
+        } of ${entry.partTotal} ${missing.length > 1 ? "are" : "is"} missing`,
+      );
+    }
+  }
+
+  return { entries, warnings };
+}
+
+/**
+ * Groups entries by the project key of their first ticket, sorted by key,
+ * followed by GitHub issues and then entries without a ticket
+ */
+export function groupChangelog(
+  entries: ChangelogEntry[],
+  options: Partial<ChangelogOptions> = {},
+): ChangelogSection[] {
+  const { noTicketTitle } = { ...DEFAULT_CHANGELOG_OPTIONS, ...options };
+  const byKey = new Map<string, ChangelogEntry[]>();
+  for (const entry of entries) {
+    const key = entry.tickets[0]?.key ?? "";
+    byKey.set(key, [...byKey.get(key) ?? [], entry]);
+  }
+
+  const keys = Array.from(byKey.keys()).filter(Boolean).sort();
+  const sections = keys.map((key) => ({
+    title: key,
+    entries: byKey.get(key)!,
+  }));
+  const issues = byKey.get("")?.filter((entry) => entry.tickets.length > 0);
+  const noTicket = byKey.get("")?.filter((entry) => entry.tickets.length === 0);
+  if (issues?.length) sections.push({ title: "Issues", entries: issues });
+  if (noTicket?.length) {
+    sections.push({ title: noTicketTitle, entries: noTicket });
+  }
+  return sections;
+}
+
+/**
+ * Describes the merged parts of an entry
+ * Examples:
+ * - ["1", "2", "3"] of 3 -> "3 parts"
+ * - ["1", "2"] of 3 -> "parts 1, 2 of 3"
+ * - ["2"] -> "part 2"
+ */
+function describeParts(parts: string[], total?: string): string {
+  if (total && parts.length === Number(total) && parts.length > 1) {
+    return `${total} parts`;
+  }
+  const label = parts.length > 1 ? "parts" : "part";
+  return `${label} ${parts.join(", ")}${total ? ` of ${total}` : ""}`;
+}
+
+/**
+ * Renders entries as a Markdown changelog, one section per project key
+ * Examples:
+ * - [MB-80 "Group by lot", parts 1, 2] -> "# Changelog\n\n## MB\n\n- MB-80 Group by lot (parts 1, 2)"
+ */
+export function renderChangelog(
+  entries: ChangelogEntry[],
+  options: Partial<ChangelogOptions> = {},
+): string {
+  const { title, ticketUrl } = { ...DEFAULT_CHANGELOG_OPTIONS, ...options };
+  const blocks = groupChangelog(entries, options).map((section) => {
+    const items = section.entries.map((entry) => {
+      const details = [
+        ...entry.parts.length > 0
+          ? [describeParts(entry.parts, entry.partTotal)]
+          : [],
+        ...entry.pullRequests.map((number) => `#${number}`),
+      ];
+      const text = [
+        entry.tickets.map((ticket) => linkTicket(ticket, ticketUrl))
+          .join(", "),
+        renderTemplate("{feature|capitalize}", { feature: entry.feature }),
+        details.length > 0 ? `(${details.join(", ")})` : "",
+      ].filter(Boolean).join(" ");
+      return `- ${text}`;
+    });
+    return `## ${section.title}\n\n${items.join("\n")}`;
+  });
+  if (title) blocks.unshift(`# ${title}`);
+  return blocks.join("\n\n");
+}
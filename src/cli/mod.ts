@@ -0,0 +1,524 @@
+import denoConfig from "../../deno.json" with { type: "json" };
+import {
+  CLIPBOARD_BACKENDS,
+  type ClipboardBackendName,
+  createClipboardBackend,
+  isClipboardBackendName,
+  readClipboard,
+  setClipboardBackend,
+  writeClipboard,
+} from "../clipboard/mod.ts";
+import { loadConfig, loadDescriptionTemplate } from "../config/mod.ts";
+import {
+  BUILTIN_CONVERTERS,
+  type ConversionResult,
+  convert,
+  convertClipboard,
+} from "../convert/mod.ts";
+import { createConverterRegistry, loadConverters } from "../converters/mod.ts";
+import { runPrepareCommitMsgHook, titleFromGit } from "../git/mod.ts";
+import { renderTitle, toBranchName } from "../pr-title/mod.ts";
+import {
+  createNotifier,
+  createQuietNotifier,
+  getNotifier,
+  isNotifierName,
+  type NotifierName,
+  NOTIFIERS,
+  setNotifier,
+  showDialog,
+} from "../system/mod.ts";
+import { TABLE_RENDERERS } from "../table/mod.ts";
+import type { TableOptions, TitleOptions } from "../types/mod.ts";
+
+export const VERSION: string = denoConfig.version;
+
+export const CLI_COMMANDS = [
+  "auto",
+  "title",
+  "table",
+  "document",
+  "changelog",
+  "description",
+  "git",
+  "hook",
+  "branch",
+] as const;
+
+export type CliCommand = typeof CLI_COMMANDS[number];
+
+export interface CliOptions {
+  command: CliCommand;
+  /** True when the command was given explicitly rather than defaulted */
+  explicitCommand: boolean;
+  /** Positional arguments following the command */
+  arguments: string[];
+  text?: string;
+  input?: string;
+  output?: string;
+  config?: string;
+  stdout: boolean;
+  /** Print the conversion result as JSON */
+  json: boolean;
+  /** Converter forced with --mode */
+  mode?: string;
+  clipboard?: ClipboardBackendName;
+  notifier?: NotifierName;
+  quiet: boolean;
+  renderer?: TableOptions["renderer"];
+  help: boolean;
+  version: boolean;
+}
+
+/**
+ * Raised when the command line cannot be understood
+ */
+export class UsageError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "UsageError";
+  }
+}
+
+export const USAGE = `Usage: pr-parser [command] [options] [text...]
+
+Commands:
+  auto                 Detect the mode from the input (default)
+  title <text>         Format a PR title
+  table                Convert image tags into a screenshot table
+  document             Replace each block of images in a PR description
+                       with a screenshot table, keeping the rest as is
+  changelog            Build a Markdown changelog from PR titles, one per
+                       line, grouped by project key
+  description [text]   Scaffold a PR description from a title on the first
+                       line, embedding the screenshots that follow it
+  branch <text>        Turn a PR title into a git branch name
+  git                  Format a PR title from the current git branch
+  hook <file> [source] prepare-commit-msg hook: prefix the commit message
+                       with the ticket of the current branch
+
+Options:
+  -i, --input <file>   Read input from a file ("-" for stdin)
+  -o, --output <file>  Write the result to a file
+      --stdout         Print the result instead of copying it to the clipboard
+      --json           Print the mode, output, counts, warnings and error
+                       code as JSON
+  -m, --mode <name>    Force a converter (title, table, document, changelog,
+                       description, or one loaded from the converters
+                       configuration)
+      --clipboard <name>
+                       Clipboard backend (${CLIPBOARD_BACKENDS.join(", ")})
+      --notifier <name>
+                       Dialogs and notifications (${NOTIFIERS.join(", ")})
+  -q, --quiet          Skip progress notifications
+      --renderer <name>
+                       Table syntax: auto (match the input), ${
+  Object.keys(TABLE_RENDERERS).join(", ")
+}
+  -c, --config <file>  Configuration file merged over .prparser.json files
+  -h, --help           Show this help
+  -V, --version        Show the version
+
+Input is taken from the text arguments, then --input, then stdin when it is
+piped, and finally the clipboard. Without a command or options, the clipboard
+is converted in place.`;
+
+function isCliCommand(value: string): value is CliCommand {
+  return (CLI_COMMANDS as readonly string[]).includes(value);
+}
+
+/**
+ * Parses command-line arguments
+ * Examples:
+ * - ["title", "Mb 80 feature"] -> { command: "title", text: "Mb 80 feature" }
+ * - ["table", "-i", "imgs.html", "--stdout"] -> { command: "table", input: "imgs.html", stdout: true }
+ * - [] -> { command: "auto", explicitCommand: false }
+ */
+export function parseCliArgs(args: string[]): CliOptions {
+  const options: CliOptions = {
+    command: "auto",
+    explicitCommand: false,
+    arguments: [],
+    stdout: false,
+    json: false,
+    quiet: false,
+    help: false,
+    version: false,
+  };
+  const positionals: string[] = [];
+
+  const takeValue = (flag: string, index: number): string => {
+    const value = args[index + 1];
+    if (value === undefined || (value.startsWith("-") && value !== "-")) {
+      throw new UsageError(`Missing value for ${flag}`);
+    }
+    return value;
+  };
+
+  for (let i = 0; i < args.length; i++) {
+    const arg = args[i];
+    const [flag, inlineValue] = arg.startsWith("--") && arg.includes("=")
+      ? [arg.slice(0, arg.indexOf("=")), arg.slice(arg.indexOf("=") + 1)]
+      : [arg, undefined];
+    const value = () => {
+      if (inlineValue !== undefined) return inlineValue;
+      const next = takeValue(flag, i);
+      i += 1;
+      return next;
+    };
+
+    switch (flag) {
+      case "-i":
+      case "--input":
+        options.input = value();
+        break;
+      case "-o":
+      case "--output":
+        options.output = value();
+        break;
+      case "--clipboard": {
+        const name = value();
+        if (!isClipboardBackendName(name)) {
+          throw new UsageError(
+            `Unknown clipboard backend "${name}" (expected one of: ${
+              CLIPBOARD_BACKENDS.join(", ")
+            })`,
+          );
+        }
+        options.clipboard = name;
+        break;
+      }
+      case "--notifier": {
+        const name = value();
+        if (!isNotifierName(name)) {
+          throw new UsageError(
+            `Unknown notifier "${name}" (expected one of: ${
+              NOTIFIERS.join(", ")
+            })`,
+          );
+        }
+        options.notifier = name;
+        break;
+      }
+      case "-q":
+      case "--quiet":
+        options.quiet = true;
+        break;
+      case "--renderer": {
+        const name = value();
+        if (name !== "auto" && !(name in TABLE_RENDERERS)) {
+          throw new UsageError(
+            `Unknown table renderer "${name}" (expected one of: auto, ${
+              Object.keys(TABLE_RENDERERS).join(", ")
+            })`,
+          );
+        }
+        options.renderer = name as TableOptions["renderer"];
+        break;
+      }
+      case "-c":
+      case "--config":
+        options.config = value();
+        break;
+      case "--stdout":
+        options.stdout = true;
+        break;
+      case "--json":
+        options.json = true;
+        break;
+      case "-m":
+      case "--mode":
+        options.mode = value();
+        break;
+      case "-h":
+      case "--help":
+        options.help = true;
+        break;
+      case "-V":
+      case "--version":
+        options.version = true;
+        break;
+      case "--app-mode":
+        // Handled by isRunningFromApp()
+        break;
+      case "--":
+        positionals.push(...args.slice(i + 1));
+        i = args.length;
+        break;
+      default:
+        if (arg.startsWith("-") && arg !== "-") {
+          throw new UsageError(`Unknown option: ${arg}`);
+        }
+        positionals.push(arg);
+    }
+  }
+
+  if (positionals.length > 0 && isCliCommand(positionals[0])) {
+    options.command = positionals[0];
+    options.explicitCommand = true;
+    positionals.shift();
+  }
+
+  options.arguments = positionals;
+
+  if (options.command === "hook") {
+    if (positionals.length < 1 || positionals.length > 3) {
+      throw new UsageError(
+        "The hook command expects the commit message file, as passed by git",
+      );
+    }
+  } else if (positionals.length > 0) {
+    if (options.command === "table" || options.command === "document") {
+      throw new UsageError(
+        `The ${options.command} command reads images from --input, stdin or the clipboard`,
+      );
+    }
+    if (options.command === "changelog") {
+      throw new UsageError(
+        "The changelog command reads PR titles from --input, stdin or the clipboard",
+      );
+    }
+    if (options.command === "git") {
+      throw new UsageError(
+        "The git command reads the current branch and takes no text",
+      );
+    }
+    options.text = positionals.join(" ");
+  }
+
+  if (options.text !== undefined && options.input !== undefined) {
+    throw new UsageError("Pass either text arguments or --input, not both");
+  }
+  if (options.stdout && options.output !== undefined) {
+    throw new UsageError("Pass either --stdout or --output, not both");
+  }
+  if (options.mode !== undefined && options.command !== "auto") {
+    throw new UsageError(
+      `Pass either the ${options.command} command or --mode, not both`,
+    );
+  }
+  if (options.json) {
+    if (options.command === "branch" || options.command === "hook") {
+      throw new UsageError(
+        `The --json option does not apply to the ${options.command} command`,
+      );
+    }
+    if (options.output !== undefined) {
+      throw new UsageError("Pass either --json or --output, not both");
+    }
+  }
+
+  return options;
+}
+
+async function readStdin(): Promise<string> {
+  return await new Response(Deno.stdin.readable).text();
+}
+
+/**
+ * Reads the input following the documented precedence
+ */
+async function readInput(options: CliOptions): Promise<string> {
+  if (options.text !== undefined) {
+    return options.text;
+  }
+  if (options.input === "-") {
+    return await readStdin();
+  }
+  if (options.input !== undefined) {
+    return await Deno.readTextFile(options.input);
+  }
+  if (!Deno.stdin.isTerminal()) {
+    return await readStdin();
+  }
+  return await readClipboard();
+}
+
+/**
+ * Writes the result to a file, stdout or the clipboard
+ */
+async function writeOutput(options: CliOptions, result: string) {
+  if (options.output !== undefined) {
+    await Deno.writeTextFile(options.output, `${result}\n`);
+    console.error(`✅ Wrote result to ${options.output}`);
+  } else if (options.stdout) {
+    console.log(result);
+  } else {
+    await writeClipboard(result);
+    console.error(`✅ Copied result to clipboard:\n${result}`);
+  }
+}
+
+/**
+ * Formats the PR title of the current git branch
+ */
+async function formatGitTitle(
+  titleOptions: TitleOptions,
+): Promise<ConversionResult> {
+  const parsed = await titleFromGit(titleOptions);
+  const output = renderTitle(parsed, titleOptions);
+  if (!output) {
+    return {
+      ok: false,
+      mode: "title",
+      error: {
+        code: "UNPARSEABLE_TITLE",
+        message: "Could not build a PR title from the current branch",
+      },
+      warnings: parsed.warnings,
+    };
+  }
+  return {
+    ok: true,
+    mode: "title",
+    output,
+    counts: { images: 0, categories: 0, tables: 0 },
+    warnings: parsed.warnings,
+  };
+}
+
+/**
+ * Runs the `prepare-commit-msg` hook. A commit is never blocked: a broken
+ * configuration or a git failure is reported and the message left as it is.
+ */
+async function runHook(options: CliOptions): Promise<number> {
+  const [messageFile, source] = options.arguments;
+  try {
+    const { config } = await loadConfig({ file: options.config });
+    await runPrepareCommitMsgHook(messageFile, source, config.title);
+  } catch (error) {
+    const errorMessage = error instanceof Error ? error.message : String(error);
+    console.error("⚠️ Skipped the commit message prefix:", errorMessage);
+  }
+  return 0;
+}
+
+/**
+ * Runs the command-line interface and returns the process exit code
+ */
+export async function runCli(args: string[]): Promise<number> {
+  let options: CliOptions;
+  try {
+    options = parseCliArgs(args);
+  } catch (error) {
+    if (!(error instanceof UsageError)) throw error;
+    console.error(`❌ ${error.message}\n\nRun "pr-parser --help" for usage.`);
+    return 2;
+  }
+
+  if (options.help) {
+    console.log(USAGE);
+    return 0;
+  }
+  if (options.version) {
+    console.log(`pr-parser ${VERSION}`);
+    return 0;
+  }
+
+  if (options.command === "hook") {
+    return await runHook(options);
+  }
+
+  const usesClipboardOnly = !options.explicitCommand &&
+    options.text === undefined && options.input === undefined &&
+    options.output === undefined && !options.stdout && !options.json &&
+    options.mode === undefined;
+
+  try {
+    const { config: loadedConfig } = await loadConfig({
+      file: options.config,
+    });
+    const config = options.renderer === undefined ? loadedConfig : {
+      ...loadedConfig,
+      table: { ...loadedConfig.table, renderer: options.renderer },
+    };
+
+    const clipboard = options.clipboard ?? config.clipboard;
+    if (clipboard !== undefined) {
+      setClipboardBackend(createClipboardBackend(clipboard));
+    }
+
+    const notifierName = options.notifier ?? config.notifier;
+    const notifier = notifierName === undefined
+      ? getNotifier()
+      : createNotifier(notifierName);
+    setNotifier(
+      options.quiet || config.quiet ? createQuietNotifier(notifier) : notifier,
+    );
+
+    // Only conversions need the custom converters, so that a broken one does
+    // not get in the way of the other commands
+    const loadRegistry = async () =>
+      createConverterRegistry([
+        ...BUILTIN_CONVERTERS,
+        ...await loadConverters(config.converters ?? []),
+      ]);
+
+    if (usesClipboardOnly) {
+      // Legacy behaviour, also used by the macOS app
+      try {
+        return (await convertClipboard(config, await loadRegistry())).ok
+          ? 0
+          : 1;
+      } catch (error) {
+        const errorMessage = error instanceof Error
+          ? error.message
+          : String(error);
+        await showDialog(
+          `An error occurred: ${errorMessage}`,
+          "Error",
+          "error",
+        );
+        return 1;
+      }
+    }
+
+    if (options.command === "branch") {
+      const branch = toBranchName(
+        await readInput(options),
+        config.title,
+        config.branch,
+      );
+      if (!branch) {
+        throw new Error("Could not build a branch name from the title");
+      }
+      await writeOutput(options, branch);
+      return 0;
+    }
+
+    const mode = options.mode ?? options.command;
+    const result = options.command === "git"
+      ? await formatGitTitle(config.title)
+      : convert(await readInput(options), {
+        mode,
+        // Only descriptions need the template file
+        config: mode === "description"
+          ? await loadDescriptionTemplate(config)
+          : config,
+        registry: await loadRegistry(),
+      });
+    if (options.json) {
+      console.log(JSON.stringify(result, null, 2));
+      return result.ok ? 0 : 1;
+    }
+
+    for (const warning of result.warnings) {
+      console.error(`⚠️ ${warning}`);
+    }
+    if (!result.ok) {
+      console.error("❌ Error:", result.error.message);
+      return 1;
+    }
+    await writeOutput(options, result.output);
+    return 0;
+  } catch (error) {
+    const errorMessage = error instanceof Error ? error.message : String(error);
+    if (usesClipboardOnly) {
+      // The app has no terminal, e.g. for an invalid .prparser.json
+      await showDialog(`An error occurred: ${errorMessage}`, "Error", "error");
+    } else {
+      console.error("❌ Error:", errorMessage);
+    }
+    return 1;
+  }
+}
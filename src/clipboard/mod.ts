@@ -1,39 +1,290 @@
 /**
- * Reads HTML content from the clipboard
+ * A clipboard implementation able to read and write plain text
  */
-export async function readClipboard(): Promise<string> {
-  const process = new Deno.Command("pbpaste", {
-    stdout: "piped",
+export interface ClipboardBackend {
+  name: string;
+  /** Shell tools the backend relies on, reported when none of them work */
+  tools: string[];
+  read(): Promise<string>;
+  write(content: string): Promise<void>;
+}
+
+/**
+ * Raised when the clipboard cannot be read or written
+ */
+export class ClipboardError extends Error {
+  constructor(message: string, readonly tried: string[] = []) {
+    super(message);
+    this.name = "ClipboardError";
+  }
+}
+
+/**
+ * Raised by command backends when their tool is not installed
+ */
+class MissingToolError extends ClipboardError {}
+
+export const CLIPBOARD_BACKENDS = [
+  "macos",
+  "wayland",
+  "xclip",
+  "xsel",
+  "memory",
+] as const;
+
+export type ClipboardBackendName = typeof CLIPBOARD_BACKENDS[number];
+
+interface ClipboardCommand {
+  command: string;
+  args: string[];
+}
+
+/**
+ * Runs a clipboard tool, feeding it `input` on stdin when provided. Writing
+ * tools such as xclip, xsel and wl-copy leave a process serving the clipboard
+ * behind, which holds on to their pipes: their output is discarded and only
+ * their exit status is awaited.
+ */
+async function runClipboardCommand(
+  { command, args }: ClipboardCommand,
+  input?: string,
+): Promise<string> {
+  const process = new Deno.Command(command, {
+    args,
+    stdin: input === undefined ? "null" : "piped",
+    stdout: input === undefined ? "piped" : "null",
     stderr: "piped",
   });
 
-  const output = await process.output();
+  let child: Deno.ChildProcess;
+  try {
+    child = process.spawn();
+  } catch (error) {
+    if (error instanceof Deno.errors.NotFound) {
+      throw new MissingToolError(`${command} is not installed`, [command]);
+    }
+    throw error;
+  }
+
+  if (input !== undefined) {
+    const writer = child.stdin.getWriter();
+    await writer.write(new TextEncoder().encode(input));
+    await writer.close();
+  }
+
+  const [status, stdout] = await Promise.all([
+    child.status,
+    input === undefined ? new Response(child.stdout).text() : "",
+  ]);
 
-  if (!output.success) {
-    throw new Error("Failed to read clipboard");
+  if (!status.success) {
+    // A failed tool exits without leaving a process behind
+    const stderr = (await new Response(child.stderr).text()).trim();
+    throw new ClipboardError(
+      `${command} exited with code ${status.code}${
+        stderr ? `: ${stderr}` : ""
+      }`,
+      [command],
+    );
   }
 
-  return new TextDecoder().decode(output.stdout);
+  await child.stderr.cancel();
+  return stdout;
 }
 
 /**
- * Writes content to the clipboard
+ * Creates a backend that shells out to a pair of read/write tools
  */
-export async function writeClipboard(content: string): Promise<void> {
-  const process = new Deno.Command("pbcopy", {
-    stdin: "piped",
-    stdout: "piped",
-    stderr: "piped",
-  });
+function createCommandBackend(
+  name: ClipboardBackendName,
+  read: ClipboardCommand,
+  write: ClipboardCommand,
+): ClipboardBackend {
+  return {
+    name,
+    tools: [read.command, write.command],
+    read: () => runClipboardCommand(read),
+    write: async (content) => {
+      await runClipboardCommand(write, content);
+    },
+  };
+}
+
+/**
+ * Creates a backend that keeps the clipboard in memory, for tests
+ */
+export function createMemoryClipboard(initial: string = ""): ClipboardBackend {
+  let content = initial;
+  return {
+    name: "memory",
+    tools: [],
+    read: () => Promise.resolve(content),
+    write: (value) => {
+      content = value;
+      return Promise.resolve();
+    },
+  };
+}
+
+/**
+ * Creates a clipboard backend by name
+ */
+export function createClipboardBackend(
+  name: ClipboardBackendName,
+): ClipboardBackend {
+  switch (name) {
+    case "macos":
+      return createCommandBackend(
+        name,
+        { command: "pbpaste", args: [] },
+        { command: "pbcopy", args: [] },
+      );
+    case "wayland":
+      return createCommandBackend(
+        name,
+        { command: "wl-paste", args: ["--no-newline"] },
+        { command: "wl-copy", args: [] },
+      );
+    case "xclip":
+      return createCommandBackend(
+        name,
+        { command: "xclip", args: ["-selection", "clipboard", "-out"] },
+        { command: "xclip", args: ["-selection", "clipboard", "-in"] },
+      );
+    case "xsel":
+      return createCommandBackend(
+        name,
+        { command: "xsel", args: ["--clipboard", "--output"] },
+        { command: "xsel", args: ["--clipboard", "--input"] },
+      );
+    case "memory":
+      return createMemoryClipboard();
+  }
+}
+
+/**
+ * Checks that a user-provided name matches a known backend
+ */
+export function isClipboardBackendName(
+  name: string,
+): name is ClipboardBackendName {
+  return (CLIPBOARD_BACKENDS as readonly string[]).includes(name);
+}
+
+/**
+ * Lists the backends worth trying for the current environment, best first
+ * Examples:
+ * - macOS -> ["macos"]
+ * - Linux with WAYLAND_DISPLAY -> ["wayland", "xclip", "xsel"]
+ * - Linux with DISPLAY only -> ["xclip", "xsel", "wayland"]
+ */
+export function detectClipboardBackends(
+  os: string = Deno.build.os,
+  env: (key: string) => string | undefined = (key) => Deno.env.get(key),
+): ClipboardBackendName[] {
+  if (os === "darwin") {
+    return ["macos"];
+  }
+  if (env("WAYLAND_DISPLAY")) {
+    return ["wayland", "xclip", "xsel"];
+  }
+  if (env("DISPLAY")) {
+    return ["xclip", "xsel", "wayland"];
+  }
+  return ["wayland", "xclip", "xsel", "macos"];
+}
+
+/**
+ * Creates a backend that tries each candidate in turn, sticking with the
+ * first one whose tools are installed
+ */
+export function createAutoClipboard(
+  candidates: ClipboardBackend[],
+): ClipboardBackend {
+  let selected: ClipboardBackend | undefined;
+
+  const attempt = async <T>(
+    operation: (backend: ClipboardBackend) => Promise<T>,
+  ): Promise<T> => {
+    if (selected) {
+      return await operation(selected);
+    }
+
+    const tried: string[] = [];
+    for (const backend of candidates) {
+      try {
+        const result = await operation(backend);
+        selected = backend;
+        return result;
+      } catch (error) {
+        if (!(error instanceof MissingToolError)) {
+          throw error;
+        }
+        tried.push(...error.tried);
+      }
+    }
+
+    throw new ClipboardError(
+      `No clipboard tool available (tried: ${tried.join(", ")}). ` +
+        "Install one of them or pick a backend with --clipboard.",
+      tried,
+    );
+  };
+
+  return {
+    name: "auto",
+    tools: candidates.flatMap((backend) => backend.tools),
+    read: () => attempt((backend) => backend.read()),
+    write: (content) => attempt((backend) => backend.write(content)),
+  };
+}
 
-  const child = process.spawn();
-  const writer = child.stdin.getWriter();
-  await writer.write(new TextEncoder().encode(content));
-  await writer.close();
+let activeBackend: ClipboardBackend | undefined;
 
-  const output = await child.output();
+/**
+ * Overrides the clipboard backend used by readClipboard/writeClipboard
+ */
+export function setClipboardBackend(backend: ClipboardBackend): void {
+  activeBackend = backend;
+}
 
-  if (!output.success) {
-    throw new Error("Failed to write to clipboard");
+/**
+ * Returns the active clipboard backend, honoring the PR_PARSER_CLIPBOARD
+ * environment variable before falling back to auto-detection
+ */
+export function getClipboardBackend(): ClipboardBackend {
+  if (activeBackend) {
+    return activeBackend;
   }
+
+  const override = Deno.env.get("PR_PARSER_CLIPBOARD");
+  if (override) {
+    if (!isClipboardBackendName(override)) {
+      throw new ClipboardError(
+        `Unknown clipboard backend "${override}" (expected one of: ${
+          CLIPBOARD_BACKENDS.join(", ")
+        })`,
+      );
+    }
+    activeBackend = createClipboardBackend(override);
+  } else {
+    activeBackend = createAutoClipboard(
+      detectClipboardBackends().map(createClipboardBackend),
+    );
+  }
+  return activeBackend;
+}
+
+/**
+ * Reads content from the clipboard
+ */
+export async function readClipboard(): Promise<string> {
+  return await getClipboardBackend().read();
+}
+
+/**
+ * Writes content to the clipboard
+ */
+export async function writeClipboard(content: string): Promise<void> {
+  await getClipboardBackend().write(content);
 }
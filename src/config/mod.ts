@@ -0,0 +1,501 @@
+import {
+  CLIPBOARD_BACKENDS,
+  type ClipboardBackendName,
+} from "../clipboard/mod.ts";
+import { DEFAULT_CHANGELOG_OPTIONS } from "../changelog/mod.ts";
+import { isAbsolutePath } from "../converters/mod.ts";
+import {
+  DEFAULT_DESCRIPTION_OPTIONS,
+  DESCRIPTION_PLACEHOLDERS,
+} from "../description/mod.ts";
+import { DEFAULT_IMAGE_OPTIONS } from "../images/mod.ts";
+import {
+  DEFAULT_BRANCH_OPTIONS,
+  DEFAULT_TITLE_OPTIONS,
+  TICKET_URL_PLACEHOLDERS,
+  validateTitleTemplate,
+} from "../pr-title/mod.ts";
+import { type NotifierName, NOTIFIERS } from "../system/mod.ts";
+import { DEFAULT_TABLE_OPTIONS, TABLE_RENDERERS } from "../table/mod.ts";
+import { validateTemplate } from "../template/mod.ts";
+import type {
+  BranchOptions,
+  ChangelogOptions,
+  ComparisonState,
+  DescriptionOptions,
+  ImageOptions,
+  TableOptions,
+  TitleOptions,
+} from "../types/mod.ts";
+
+export const CONFIG_FILENAME = ".prparser.json";
+
+/**
+ * Fully resolved configuration, with every default filled in
+ */
+export interface PRParserConfig {
+  clipboard?: ClipboardBackendName;
+  notifier?: NotifierName;
+  /** Skip progress toasts, keeping dialogs */
+  quiet?: boolean;
+  /** Paths of TypeScript modules exporting extra converters */
+  converters?: string[];
+  title: TitleOptions;
+  images: ImageOptions;
+  branch: BranchOptions;
+  table: TableOptions;
+  changelog: ChangelogOptions;
+  description: DescriptionOptions;
+}
+
+/**
+ * Configuration as written in a file, where every key is optional
+ */
+export interface PartialConfig {
+  clipboard?: ClipboardBackendName;
+  notifier?: NotifierName;
+  quiet?: boolean;
+  converters?: string[];
+  title?: Partial<TitleOptions>;
+  images?: Partial<ImageOptions>;
+  branch?: Partial<BranchOptions>;
+  table?: Partial<TableOptions>;
+  changelog?: Partial<ChangelogOptions>;
+  description?: Partial<DescriptionOptions>;
+}
+
+export const DEFAULT_CONFIG: PRParserConfig = {
+  title: DEFAULT_TITLE_OPTIONS,
+  images: DEFAULT_IMAGE_OPTIONS,
+  branch: DEFAULT_BRANCH_OPTIONS,
+  table: DEFAULT_TABLE_OPTIONS,
+  changelog: DEFAULT_CHANGELOG_OPTIONS,
+  description: DEFAULT_DESCRIPTION_OPTIONS,
+};
+
+/**
+ * Raised when a configuration file is unreadable or invalid
+ */
+export class ConfigError extends Error {
+  constructor(
+    message: string,
+    readonly source: string,
+    readonly key?: string,
+  ) {
+    super(`${source}: ${key ? `${key}: ` : ""}${message}`);
+    this.name = "ConfigError";
+  }
+}
+
+/**
+ * Returns a description of the expected value when `value` is invalid
+ */
+type Validator = (value: unknown) => string | undefined;
+
+interface Schema {
+  [key: string]: Validator | Schema;
+}
+
+const string: Validator = (value) =>
+  typeof value === "string" ? undefined : "expected a string";
+
+const nonEmptyString: Validator = (value) =>
+  typeof value === "string" && value.trim() !== ""
+    ? undefined
+    : "expected a non-empty string";
+
+const positiveInteger: Validator = (value) =>
+  Number.isInteger(value) && (value as number) > 0
+    ? undefined
+    : "expected a positive integer";
+
+const nonNegativeInteger: Validator = (value) =>
+  Number.isInteger(value) && (value as number) >= 0
+    ? undefined
+    : "expected a non-negative integer";
+
+const imageWidth: Validator = (value) =>
+  positiveInteger(value) === undefined ||
+    (isPlainObject(value) && Object.keys(value).length > 0 &&
+      Object.values(value).every((width) =>
+        positiveInteger(width) === undefined
+      ))
+    ? undefined
+    : 'expected a positive integer or widths per state, e.g. { "before": 250 }';
+
+const stateList: Validator = (value) => {
+  const expected =
+    'expected a list of states, e.g. [{ "keyword": "light", "label": "Light" }]';
+  if (!Array.isArray(value) || value.length === 0) return expected;
+  const words = new Set<string>();
+  for (const state of value) {
+    if (
+      !isPlainObject(state) ||
+      Object.keys(state).some((key) =>
+        !["keyword", "label", "synonyms"].includes(key)
+      ) ||
+      nonEmptyString(state.keyword) !== undefined ||
+      (state.label !== undefined && typeof state.label !== "string") ||
+      (state.synonyms !== undefined &&
+        (!Array.isArray(state.synonyms) ||
+          state.synonyms.some((synonym) => nonEmptyString(synonym))))
+    ) {
+      return expected;
+    }
+    for (const word of [state.keyword, ...(state.synonyms ?? [])]) {
+      const normalized = (word as string).trim().toLowerCase();
+      if (normalized === "standalone" || words.has(normalized)) {
+        return `expected unique state keywords and synonyms other than "standalone"`;
+      }
+      words.add(normalized);
+    }
+  }
+  return undefined;
+};
+
+const labelMap: Validator = (value) =>
+  isPlainObject(value) &&
+    Object.values(value).every((label) => typeof label === "string")
+    ? undefined
+    : 'expected labels by state keyword, e.g. { "before": "Avant" }';
+
+const boolean: Validator = (value) =>
+  typeof value === "boolean" ? undefined : "expected true or false";
+
+const projectKeyList: Validator = (value) =>
+  Array.isArray(value) &&
+    value.every((item) => typeof item === "string" && /^[A-Za-z]+$/.test(item))
+    ? undefined
+    : "expected a list of alphabetic project keys";
+
+const moduleList: Validator = (value) =>
+  Array.isArray(value) &&
+    value.every((item) => nonEmptyString(item) === undefined)
+    ? undefined
+    : 'expected a list of module paths, e.g. ["./tools/converter.ts"]';
+
+const oneOf = (choices: readonly string[]): Validator => (value) =>
+  typeof value === "string" && choices.includes(value)
+    ? undefined
+    : `expected one of ${choices.map((choice) => `"${choice}"`).join(", ")}`;
+
+const titleTemplate: Validator = (value) =>
+  typeof value === "string"
+    ? validateTitleTemplate(value)
+    : "expected a preset name or a template string";
+
+const ticketUrl: Validator = (value) =>
+  typeof value === "string"
+    ? validateTemplate(value, TICKET_URL_PLACEHOLDERS)
+    : 'expected a URL template, e.g. "https://acme.atlassian.net/browse/{ticket}"';
+
+const descriptionTemplate: Validator = (value) =>
+  typeof value === "string"
+    ? validateTemplate(value, DESCRIPTION_PLACEHOLDERS)
+    : "expected a template string";
+
+const CONFIG_SCHEMA: Schema = {
+  clipboard: oneOf(CLIPBOARD_BACKENDS),
+  notifier: oneOf(NOTIFIERS),
+  quiet: boolean,
+  converters: moduleList,
+  title: {
+    noTicketLabel: nonEmptyString,
+    partLabel: nonEmptyString,
+    template: titleTemplate,
+    projectKeys: projectKeyList,
+    unknownTicket: oneOf(["no-ticket", "warn"]),
+    maxTypoDistance: nonNegativeInteger,
+    multipleTickets: oneOf(["separate", "combined"]),
+  },
+  images: {
+    states: stateList,
+    labels: labelMap,
+    pairByOrder: boolean,
+  },
+  branch: {
+    style: oneOf(["hyphen", "slash"]),
+    maxLength: positiveInteger,
+  },
+  table: {
+    renderer: oneOf(["auto", ...Object.keys(TABLE_RENDERERS)]),
+    width: imageWidth,
+    summary: string,
+    details: oneOf(["closed", "open", "none"]),
+    columns: positiveInteger,
+    headers: boolean,
+  },
+  changelog: {
+    title: string,
+    ticketUrl,
+    noTicketTitle: nonEmptyString,
+  },
+  description: {
+    template: descriptionTemplate,
+    templateFile: nonEmptyString,
+    ticketUrl,
+  },
+};
+
+function isPlainObject(value: unknown): value is Record<string, unknown> {
+  return typeof value === "object" && value !== null && !Array.isArray(value);
+}
+
+function validateAgainst(
+  value: unknown,
+  schema: Schema,
+  source: string,
+  path: string,
+): void {
+  if (!isPlainObject(value)) {
+    throw new ConfigError("expected an object", source, path || undefined);
+  }
+
+  for (const [key, child] of Object.entries(value)) {
+    const keyPath = path ? `${path}.${key}` : key;
+    const rule = schema[key];
+    if (rule === undefined) {
+      throw new ConfigError("unknown key", source, keyPath);
+    }
+    if (typeof rule === "function") {
+      const expected = rule(child);
+      if (expected) {
+        throw new ConfigError(
+          `${expected}, got ${JSON.stringify(child)}`,
+          source,
+          keyPath,
+        );
+      }
+    } else {
+      validateAgainst(child, rule, source, keyPath);
+    }
+  }
+}
+
+/**
+ * Validates raw configuration data, pointing at the first invalid key
+ * Examples:
+ * - { table: { width: 250 } } -> returned as is
+ * - { table: { width: "250" } } -> ConfigError "table.width: expected a positive integer"
+ * - { tabel: {} } -> ConfigError "tabel: unknown key"
+ */
+export function validateConfig(value: unknown, source: string): PartialConfig {
+  validateAgainst(value, CONFIG_SCHEMA, source, "");
+  return value as PartialConfig;
+}
+
+/**
+ * Merges configuration layers, later layers overriding earlier ones key by key
+ */
+export function mergeConfig(
+  base: PRParserConfig,
+  ...layers: PartialConfig[]
+): PRParserConfig {
+  return layers.reduce<PRParserConfig>(
+    (merged, layer) => ({
+      clipboard: layer.clipboard ?? merged.clipboard,
+      notifier: layer.notifier ?? merged.notifier,
+      quiet: layer.quiet ?? merged.quiet,
+      converters: layer.converters ?? merged.converters,
+      title: { ...merged.title, ...layer.title },
+      images: { ...merged.images, ...layer.images },
+      branch: { ...merged.branch, ...layer.branch },
+      table: { ...merged.table, ...layer.table },
+      changelog: { ...merged.changelog, ...layer.changelog },
+      description: { ...merged.description, ...layer.description },
+    }),
+    base,
+  );
+}
+
+/**
+ * Describes the keys of per-state widths that name no comparison state
+ * Examples:
+ * - { before: 250 } -> undefined
+ * - { befor: 250 } -> 'unknown state "befor", expected "before", "after" or "standalone"'
+ */
+function checkStateWidths(
+  width: TableOptions["width"] | undefined,
+  states: ComparisonState[],
+): string | undefined {
+  if (!isPlainObject(width)) return undefined;
+  const keywords = [...states.map((state) => state.keyword), "standalone"];
+  const unknown = Object.keys(width).find((key) => !keywords.includes(key));
+  if (unknown === undefined) return undefined;
+  const quoted = keywords.map((keyword) => `"${keyword}"`);
+  return `unknown state "${unknown}", expected ${
+    quoted.slice(0, -1).join(", ")
+  } or ${quoted.at(-1)}`;
+}
+
+export interface LoadConfigOptions {
+  /** Directory where the search starts, defaults to the current directory */
+  cwd?: string;
+  /** Home directory holding user defaults, defaults to $HOME */
+  home?: string;
+  /** Extra file merged last, e.g. from --config */
+  file?: string;
+  /** File reader, returning undefined when the file does not exist */
+  readFile?: (path: string) => Promise<string | undefined>;
+}
+
+async function readFileIfExists(path: string): Promise<string | undefined> {
+  try {
+    return await Deno.readTextFile(path);
+  } catch (error) {
+    if (error instanceof Deno.errors.NotFound) {
+      return undefined;
+    }
+    throw error;
+  }
+}
+
+function joinPath(directory: string, name: string): string {
+  return directory.endsWith("/")
+    ? `${directory}${name}`
+    : `${directory}/${name}`;
+}
+
+/**
+ * Lists `directory` and its parents, nearest first
+ */
+function ancestors(directory: string): string[] {
+  const directories = [directory];
+  let current = directory;
+  while (current !== "/" && current.includes("/")) {
+    current = current.slice(0, current.lastIndexOf("/")) || "/";
+    directories.push(current);
+  }
+  return directories;
+}
+
+function parseJson(text: string, source: string): unknown {
+  try {
+    return JSON.parse(text);
+  } catch (error) {
+    const reason = error instanceof Error ? error.message : String(error);
+    throw new ConfigError(`invalid JSON (${reason})`, source);
+  }
+}
+
+/**
+ * Loads configuration from `.prparser.json` files and `prParser` keys in
+ * `deno.json`, merged in this order (later wins):
+ * defaults, home directory, then each directory from the filesystem root
+ * down to the current directory, then the explicit `file`.
+ * Returns the merged configuration and the files it was read from.
+ */
+export async function loadConfig(
+  options: LoadConfigOptions = {},
+): Promise<{ config: PRParserConfig; sources: string[] }> {
+  const readFile = options.readFile ?? readFileIfExists;
+  const cwd = (options.cwd ?? Deno.cwd()).replace(/\\/g, "/");
+  const home = (options.home ?? Deno.env.get("HOME") ??
+    Deno.env.get("USERPROFILE"))?.replace(/\\/g, "/");
+
+  const directories = ancestors(cwd).reverse();
+  if (home && !directories.includes(home)) {
+    directories.unshift(home);
+  }
+
+  const layers: PartialConfig[] = [];
+  const sources: string[] = [];
+
+  // Paths are relative to the file declaring them
+  const resolve = (path: string, directory: string) =>
+    isAbsolutePath(path)
+      ? path
+      : joinPath(directory, path.replace(/^\.\//, ""));
+
+  const addLayer = (raw: unknown, source: string, directory: string) => {
+    const layer = validateConfig(raw, source);
+    if (layer.converters) {
+      layer.converters = layer.converters.map((path) =>
+        resolve(path, directory)
+      );
+    }
+    if (layer.description?.templateFile) {
+      // Only read by loadDescriptionTemplate(), when a description is built
+      layer.description = {
+        ...layer.description,
+        templateFile: resolve(layer.description.templateFile, directory),
+      };
+    }
+    layers.push(layer);
+    sources.push(source);
+  };
+
+  for (const directory of directories) {
+    const denoJsonPath = joinPath(directory, "deno.json");
+    const denoJson = await readFile(denoJsonPath);
+    if (denoJson !== undefined) {
+      // deno.json may hold comments (JSONC); only plain JSON is inspected
+      let parsed: unknown;
+      try {
+        parsed = JSON.parse(denoJson);
+      } catch {
+        parsed = undefined;
+      }
+      if (isPlainObject(parsed) && parsed.prParser !== undefined) {
+        addLayer(
+          parsed.prParser,
+          `${denoJsonPath} (prParser)`,
+          directory,
+        );
+      }
+    }
+
+    const configPath = joinPath(directory, CONFIG_FILENAME);
+    const configFile = await readFile(configPath);
+    if (configFile !== undefined) {
+      addLayer(parseJson(configFile, configPath), configPath, directory);
+    }
+  }
+
+  if (options.file !== undefined) {
+    const configFile = await readFile(options.file);
+    if (configFile === undefined) {
+      throw new ConfigError("file not found", options.file);
+    }
+    const file = options.file.replace(/\\/g, "/");
+    const directory = file.includes("/")
+      ? file.slice(0, file.lastIndexOf("/")) || "/"
+      : cwd;
+    addLayer(
+      parseJson(configFile, options.file),
+      options.file,
+      isAbsolutePath(directory) ? directory : joinPath(cwd, directory),
+    );
+  }
+
+  const config = mergeConfig(DEFAULT_CONFIG, ...layers);
+  // States may come from another file than the widths, so widths are
+  // checked against the merged states
+  layers.forEach((layer, index) => {
+    const problem = checkStateWidths(layer.table?.width, config.images.states);
+    if (problem) throw new ConfigError(problem, sources[index], "table.width");
+  });
+  return { config, sources };
+}
+
+/**
+ * Reads the `description.templateFile` of a loaded configuration into
+ * `description.template`. Kept out of loadConfig() so that a missing or
+ * broken template only fails the description mode.
+ * Examples:
+ * - { templateFile: "/repo/.github/pr.md" } -> { template: "<file content>", templateFile: ... }
+ * - { templateFile: "/repo/missing.md" } -> ConfigError "/repo/missing.md: file not found"
+ */
+export async function loadDescriptionTemplate(
+  config: PRParserConfig,
+  readFile: LoadConfigOptions["readFile"] = readFileIfExists,
+): Promise<PRParserConfig> {
+  const path = config.description.templateFile;
+  if (!path) return config;
+
+  const template = await readFile(path);
+  if (template === undefined) throw new ConfigError("file not found", path);
+  const problem = validateTemplate(template, DESCRIPTION_PLACEHOLDERS);
+  if (problem) throw new ConfigError(problem, path);
+  return { ...config, description: { ...config.description, template } };
+}
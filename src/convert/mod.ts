@@ -1,7 +1,33 @@
+import {
+  isTitleList,
+  parseChangelog,
+  renderChangelog,
+} from "../changelog/mod.ts";
 import { readClipboard, writeClipboard } from "../clipboard/mod.ts";
-import { groupImagesByCategory, parseImagesFromClipboard } from "../images/mod.ts";
-import { parsePRTitle } from "../pr-title/mod.ts";
-import { generateTable } from "../table/mod.ts";
+import {
+  DEFAULT_CONFIG,
+  loadConfig,
+  type PRParserConfig,
+} from "../config/mod.ts";
+import { renderDescription } from "../description/mod.ts";
+import {
+  detectImageSyntax,
+  findMediaRuns,
+  groupImagesByCategory,
+  isMediaSnippet,
+  parseImagesFromClipboard,
+} from "../images/mod.ts";
+import {
+  parseFormattedTitle,
+  parseTitle,
+  renderTitle,
+} from "../pr-title/mod.ts";
+import { renderTable } from "../table/mod.ts";
+import {
+  type Converter,
+  type ConverterRegistry,
+  createConverterRegistry,
+} from "../converters/mod.ts";
 import {
   isRunningFromApp,
   pasteResult,
@@ -10,98 +36,548 @@ import {
 } from "../system/mod.ts";
 
 /**
- * Main function that orchestrates the clipboard conversion
+ * Modes of the built-in converters
  */
-export async function convertClipboard(): Promise<void> {
-  try {
-    await showProgress("Reading clipboard content...");
-    const clipboardContent = await readClipboard();
+export type ConversionMode =
+  | "title"
+  | "table"
+  | "document"
+  | "changelog"
+  | "description";
 
-    if (!clipboardContent.trim()) {
-      await showDialog(
-        "Clipboard is empty. Please copy some content first.",
-        "No Content",
-        "error",
-      );
-      return;
-    }
+/**
+ * Picks the conversion mode from the content with the built-in converters:
+ * image and video snippets become tables, text holding blocks of images is a
+ * document whose blocks are converted in place, lines of formatted PR titles
+ * are a list for a changelog, anything else is treated as a PR title
+ */
+export function detectMode(content: string): ConversionMode {
+  return createConverterRegistry(BUILTIN_CONVERTERS)
+    .detect(content, DEFAULT_CONFIG)!.name as ConversionMode;
+}
 
-    const trimmedClipboard = clipboardContent.trim();
-    const isImageSnippet = trimmedClipboard.startsWith("<img") ||
-      trimmedClipboard.startsWith("![");
+/**
+ * Removes media runs from the content
+ */
+function withoutMediaRuns(content: string, runs: [number, number][]): string {
+  return runs.reduceRight(
+    (text, [start, end]) => text.slice(0, start) + text.slice(end),
+    content,
+  );
+}
 
-    // Check if clipboard contains image snippet or plain text (PR title)
-    if (!isImageSnippet) {
-      // PR title mode
-      await showProgress("Parsing PR title...");
-      const formattedTitle = parsePRTitle(clipboardContent);
+/**
+ * Tells how the media runs cover the content: "all" of it, "some" of it
+ * (a document), or "none" when there are no block-level runs
+ */
+function mediaCoverage(content: string): "all" | "some" | "none" {
+  const trimmed = content.trim();
+  const runs = findMediaRuns(trimmed);
+  if (runs.length === 0) return "none";
+  return withoutMediaRuns(trimmed, runs).trim() === "" ? "all" : "some";
+}
 
-      if (!formattedTitle) {
-        await showDialog(
-          "Could not parse PR title. Please check the format.",
-          "Parse Error",
-          "error",
-        );
-        return;
-      }
+/**
+ * Formats a PR title, keeping the warnings raised while parsing it
+ */
+function formatTitle(
+  content: string,
+  config: PRParserConfig,
+): { output: string; warnings: string[] } {
+  const parsed = parseTitle(content, config.title);
+  return {
+    output: renderTitle(parsed, config.title),
+    warnings: parsed.warnings,
+  };
+}
 
-      await showProgress("Writing formatted title to clipboard...");
-      await writeClipboard(formattedTitle);
+/**
+ * Builds a table from image snippets, or returns undefined without images
+ */
+function formatTable(
+  content: string,
+  config: PRParserConfig,
+):
+  | { output: string; warnings: string[]; images: number; categories: number }
+  | undefined {
+  const images = parseImagesFromClipboard(content, config.images);
+  if (images.length === 0) {
+    return undefined;
+  }
+  const { standaloneImages, pairedGroups, warnings } = groupImagesByCategory(
+    images,
+    config.images,
+  );
+  return {
+    output: renderTable(
+      standaloneImages,
+      pairedGroups,
+      config.table,
+      detectImageSyntax(content),
+      config.images,
+    ),
+    warnings,
+    images: images.length,
+    categories: standaloneImages.length + pairedGroups.size,
+  };
+}
 
-      await showDialog(
-        `Successfully formatted PR title!\n\nResult: ${formattedTitle}`,
-        "Success",
+/**
+ * Replaces every block of images in a document with a table, leaving the
+ * rest of the document byte-for-byte untouched
+ */
+function formatDocument(
+  content: string,
+  config: PRParserConfig,
+): {
+  output: string;
+  warnings: string[];
+  tables: number;
+  images: number;
+  categories: number;
+} {
+  let output = content;
+  let tables = 0;
+  let images = 0;
+  let categories = 0;
+  const warnings: string[] = [];
+  // Replace from the end so that earlier offsets stay valid
+  for (const [start, end] of findMediaRuns(content).reverse()) {
+    const table = formatTable(content.slice(start, end), config);
+    if (!table) continue;
+    output = output.slice(0, start) + table.output + output.slice(end);
+    tables += 1;
+    images += table.images;
+    categories += table.categories;
+    warnings.unshift(...table.warnings);
+  }
+  return { output, warnings, tables, images, categories };
+}
+
+export type ConversionErrorCode =
+  | "EMPTY_INPUT"
+  | "NO_IMAGES"
+  | "UNPARSEABLE_TITLE"
+  | "UNKNOWN_MODE";
+
+export interface ConversionCounts {
+  /** Images and videos placed in tables */
+  images: number;
+  /** Standalone images and paired categories */
+  categories: number;
+  tables: number;
+}
+
+/**
+ * Outcome of a conversion, as printed by `--json`
+ */
+export type ConversionResult =
+  | {
+    ok: true;
+    /** Name of the converter used, e.g. "table" */
+    mode: string;
+    output: string;
+    counts: ConversionCounts;
+    warnings: string[];
+  }
+  | {
+    ok: false;
+    mode: string;
+    error: { code: ConversionErrorCode; message: string };
+    warnings: string[];
+  };
+
+export interface ConvertOptions {
+  /**
+   * Name of the converter to use, or "auto" to pick the most confident one
+   */
+  mode: string;
+  config: PRParserConfig;
+  /** Available converters, the built-in ones when left out */
+  registry?: ConverterRegistry;
+}
+
+export const DEFAULT_CONVERT_OPTIONS: ConvertOptions = {
+  mode: "auto",
+  config: DEFAULT_CONFIG,
+};
+
+/**
+ * Raised by converters, and by convertContent(), when the input cannot be
+ * converted
+ */
+export class ConversionError extends Error {
+  constructor(message: string, readonly code: ConversionErrorCode) {
+    super(message);
+    this.name = "ConversionError";
+  }
+}
+
+/**
+ * Converts PR titles, e.g. "Mb 80 feature" -> "[MB-80] Feature". Accepts any
+ * text, as the fallback of the other converters.
+ */
+const titleConverter: Converter = {
+  name: "title",
+  detect: () => 0.1,
+  transform: (input, config) => {
+    const { output, warnings } = formatTitle(input, config);
+    if (!output) {
+      throw new ConversionError(
+        "Could not parse PR title. Please check the format.",
+        "UNPARSEABLE_TITLE",
       );
+    }
+    return { output, warnings };
+  },
+};
 
-      if (isRunningFromApp()) {
-        await pasteResult();
-        Deno.exit(0);
-      }
-      return;
+/**
+ * Converts image and video snippets into a screenshot table
+ */
+const tableConverter: Converter = {
+  name: "table",
+  detect: (input) => {
+    const coverage = mediaCoverage(input);
+    if (coverage === "all") return 1;
+    // Inline snippets such as "<img ...><img ...>" without line breaks
+    return coverage === "none" && isMediaSnippet(input) ? 0.7 : 0;
+  },
+  transform: (input, config) => {
+    const table = formatTable(input, config);
+    if (!table) {
+      throw new ConversionError(
+        "No valid images found. Make sure the input starts with <img ...> or <video ...> tags, Markdown images like ![alt](src), or video URLs.",
+        "NO_IMAGES",
+      );
     }
+    return {
+      output: table.output,
+      counts: {
+        images: table.images,
+        categories: table.categories,
+        tables: 1,
+      },
+      warnings: table.warnings,
+    };
+  },
+};
 
-    // Image table mode
-    await showProgress("Parsing images...");
-    const images = parseImagesFromClipboard(clipboardContent);
+/**
+ * Converts the blocks of images of a document in place
+ */
+const documentConverter: Converter = {
+  name: "document",
+  detect: (input) => mediaCoverage(input) === "some" ? 0.9 : 0,
+  transform: (input, config) => {
+    const document = formatDocument(input, config);
+    if (document.tables === 0) {
+      throw new ConversionError(
+        "No image blocks found. Put images on their own lines to convert them.",
+        "NO_IMAGES",
+      );
+    }
+    return {
+      output: document.output,
+      counts: {
+        images: document.images,
+        categories: document.categories,
+        tables: document.tables,
+      },
+      warnings: document.warnings,
+    };
+  },
+};
 
-    if (images.length === 0) {
-      await showDialog(
-        "No valid images found in clipboard content. Make sure your clipboard starts with <img ...> tags or Markdown images like ![alt](src).",
-        "No Images Found",
-        "error",
+/**
+ * Builds a Markdown changelog from PR titles, one per line
+ */
+const changelogConverter: Converter = {
+  name: "changelog",
+  detect: (input, config) =>
+    mediaCoverage(input) === "none" && !isMediaSnippet(input) &&
+      isTitleList(input, config.title)
+      ? 0.5
+      : 0,
+  transform: (input, config) => {
+    const { entries, warnings } = parseChangelog(input, config.title);
+    if (entries.length === 0) {
+      throw new ConversionError(
+        "No PR titles found. Put one PR title per line.",
+        "UNPARSEABLE_TITLE",
       );
-      return;
     }
+    return { output: renderChangelog(entries, config.changelog), warnings };
+  },
+};
 
-    await showProgress(`Found ${images.length} images, grouping by category...`);
-    const { standaloneImages, pairedGroups } = groupImagesByCategory(images);
+/**
+ * Scaffolds a PR description from a title on the first line, followed by
+ * optional notes and screenshots. Only used when asked for, as its input
+ * also reads as a title or a document.
+ */
+const descriptionConverter: Converter = {
+  name: "description",
+  detect: () => 0,
+  transform: (input, config) => {
+    const [titleLine, ...lines] = input.trim().split("\n");
+    const parsed = parseFormattedTitle(titleLine, config.title) ??
+      parseTitle(titleLine, config.title);
+    if (
+      findMediaRuns(titleLine).length > 0 || !renderTitle(parsed, config.title)
+    ) {
+      throw new ConversionError(
+        "Could not parse PR title. Put the title on the first line, before the screenshots.",
+        "UNPARSEABLE_TITLE",
+      );
+    }
 
-    await showProgress("Generating table...");
-    const tableHtml = generateTable(standaloneImages, pairedGroups);
+    const body = lines.join("\n");
+    const runs = findMediaRuns(body);
+    const table = runs.length > 0
+      ? formatTable(
+        runs
+          .map(([start, end]) => body.slice(start, end))
+          .join("\n"),
+        config,
+      )
+      : undefined;
+    // Lines naming videos go into the table, other notes into the summary
+    const summary = withoutMediaRuns(body, runs).replace(/\n{3,}/g, "\n\n");
 
-    await showProgress("Writing result to clipboard...");
-    await writeClipboard(tableHtml);
+    return {
+      output: renderDescription(
+        parsed,
+        { summary, screenshots: table?.output },
+        {
+          ...config.description,
+          ticketUrl: config.description.ticketUrl ||
+            config.changelog.ticketUrl,
+        },
+        config.title,
+      ),
+      counts: table
+        ? { images: table.images, categories: table.categories, tables: 1 }
+        : {},
+      warnings: [...parsed.warnings, ...table?.warnings ?? []],
+    };
+  },
+};
 
-    const totalCategories = standaloneImages.length + pairedGroups.size;
-    await showDialog(
-      `Successfully converted clipboard content to table format!\nProcessed ${totalCategories} categories with ${images.length} images.`,
-      "Success",
+export const BUILTIN_CONVERTERS: Converter[] = [
+  titleConverter,
+  tableConverter,
+  documentConverter,
+  changelogConverter,
+  descriptionConverter,
+];
+
+const NO_COUNTS: ConversionCounts = { images: 0, categories: 0, tables: 0 };
+
+/**
+ * Converts content without side effects, returning the mode, the output and
+ * counts, or an error code when the input cannot be converted
+ * Examples:
+ * - "Mb 80 feature" -> { ok: true, mode: "title", output: "[MB-80] Feature" }
+ * - "  " -> { ok: false, error: { code: "EMPTY_INPUT" } }
+ * - "no images here" with mode "table" -> { ok: false, error: { code: "NO_IMAGES" } }
+ */
+export function convert(
+  input: string,
+  options: Partial<ConvertOptions> = {},
+): ConversionResult {
+  const { mode, config, registry } = {
+    ...DEFAULT_CONVERT_OPTIONS,
+    ...options,
+  };
+  const converters = registry ?? createConverterRegistry(BUILTIN_CONVERTERS);
+  const converter = mode === "auto"
+    ? converters.detect(input, config)
+    : converters.get(mode);
+  const failure = (code: ConversionErrorCode, message: string) => ({
+    ok: false as const,
+    mode: converter?.name ?? mode,
+    error: { code, message },
+    warnings: [],
+  });
+
+  if (!input.trim()) {
+    return failure(
+      "EMPTY_INPUT",
+      "Input is empty. Please provide some content first.",
+    );
+  }
+  if (!converter) {
+    const names = converters.list().map(({ name }) => name).join(", ");
+    return failure(
+      "UNKNOWN_MODE",
+      mode === "auto"
+        ? `No converter accepts this input (available: ${names})`
+        : `Unknown mode "${mode}" (expected one of: ${names})`,
     );
+  }
 
-    // If running from app, we can exit cleanly
-    if (isRunningFromApp()) {
-      await pasteResult();
-      Deno.exit(0);
-    }
+  try {
+    const { output, counts, warnings } = converter.transform(input, config);
+    return {
+      ok: true,
+      mode: converter.name,
+      output,
+      counts: { ...NO_COUNTS, ...counts },
+      warnings: warnings ?? [],
+    };
   } catch (error) {
-    const errorMessage = error instanceof Error ? error.message : String(error);
-    await showDialog(`An error occurred: ${errorMessage}`, "Error", "error");
+    if (error instanceof ConversionError) {
+      return failure(error.code, error.message);
+    }
+    throw error;
+  }
+}
+
+/**
+ * Converts content without touching the clipboard, throwing a
+ * ConversionError when the input cannot be converted
+ */
+export function convertContent(
+  content: string,
+  mode: string = "auto",
+  config: PRParserConfig = DEFAULT_CONFIG,
+  registry?: ConverterRegistry,
+): { output: string; warnings: string[] } {
+  const result = convert(content, { mode, config, registry });
+  if (!result.ok) {
+    throw new ConversionError(result.error.message, result.error.code);
+  }
+  return { output: result.output, warnings: result.warnings };
+}
 
-    if (isRunningFromApp()) {
-      Deno.exit(1);
+/**
+ * Dialog titles of the conversion errors
+ */
+const ERROR_TITLES: Record<ConversionErrorCode, string> = {
+  EMPTY_INPUT: "No Content",
+  NO_IMAGES: "No Images Found",
+  UNPARSEABLE_TITLE: "Parse Error",
+  UNKNOWN_MODE: "Unknown Content",
+};
+
+/**
+ * Shows the success dialog of a conversion, listing its warnings
+ */
+async function showResult(
+  result: Extract<ConversionResult, { ok: true }>,
+) {
+  const { mode, output, counts, warnings } = result;
+  const list = warnings.map((warning) => `- ${warning}`).join("\n");
+
+  if (mode === "title") {
+    if (warnings.length > 0) {
+      await showDialog(
+        `Formatted PR title with warnings:\n${list}\n\nResult: ${output}`,
+        "Check Ticket",
+        "warning",
+      );
     } else {
-      console.error("❌ Error:", errorMessage);
-      Deno.exit(1);
+      await showDialog(
+        `Successfully formatted PR title!\n\nResult: ${output}`,
+        "Success",
+      );
     }
+    return;
+  }
+
+  if (mode === "description") {
+    await showDialog(
+      warnings.length > 0
+        ? `Built the PR description with warnings:\n${list}`
+        : `Successfully built the PR description!\nProcessed ${counts.images} images.`,
+      warnings.length > 0 ? "Check Description" : "Success",
+      warnings.length > 0 ? "warning" : "info",
+    );
+    return;
+  }
+
+  if (mode === "changelog") {
+    await showDialog(
+      warnings.length > 0
+        ? `Built the changelog with warnings:\n${list}`
+        : "Successfully built the changelog!",
+      warnings.length > 0 ? "Check Changelog" : "Success",
+      warnings.length > 0 ? "warning" : "info",
+    );
+    return;
+  }
+
+  if (mode !== "table" && mode !== "document") {
+    await showDialog(
+      warnings.length > 0
+        ? `Converted clipboard content (${mode}) with warnings:\n${list}`
+        : `Successfully converted clipboard content (${mode})!`,
+      warnings.length > 0 ? "Check Result" : "Success",
+      warnings.length > 0 ? "warning" : "info",
+    );
+    return;
+  }
+
+  const message = mode === "document"
+    ? `Successfully converted ${counts.tables} image blocks in the document!\nProcessed ${counts.images} images.`
+    : `Successfully converted clipboard content to table format!\nProcessed ${counts.categories} categories with ${counts.images} images.`;
+  if (warnings.length > 0) {
+    await showDialog(
+      `${message}\n\nCheck these images:\n${list}`,
+      "Check Images",
+      "warning",
+    );
+  } else {
+    await showDialog(message, "Success");
+  }
+}
+
+const PROGRESS_MESSAGES: Record<string, string> = {
+  title: "Parsing PR title...",
+  table: "Generating table...",
+  document: "Converting image blocks...",
+  changelog: "Building changelog...",
+  description: "Building PR description...",
+};
+
+/**
+ * Converts the clipboard in place, reporting through the active notifier,
+ * and pastes the result when running from the app. Loads the configuration
+ * files when no configuration is given.
+ */
+export async function convertClipboard(
+  config?: PRParserConfig,
+  registry: ConverterRegistry = createConverterRegistry(BUILTIN_CONVERTERS),
+): Promise<ConversionResult> {
+  const resolvedConfig = config ?? (await loadConfig()).config;
+
+  await showProgress("Reading clipboard content...");
+  const clipboardContent = await readClipboard();
+
+  const converter = registry.detect(clipboardContent, resolvedConfig);
+  await showProgress(
+    PROGRESS_MESSAGES[converter?.name ?? ""] ?? "Converting...",
+  );
+  const result = convert(clipboardContent, {
+    mode: converter?.name ?? "auto",
+    config: resolvedConfig,
+    registry,
+  });
+  if (!result.ok) {
+    const message = result.error.code === "EMPTY_INPUT"
+      ? "Clipboard is empty. Please copy some content first."
+      : result.error.message;
+    await showDialog(message, ERROR_TITLES[result.error.code], "error");
+    return result;
+  }
+
+  await showProgress("Writing result to clipboard...");
+  await writeClipboard(result.output);
+  await showResult(result);
+
+  if (isRunningFromApp()) {
+    await pasteResult();
   }
+  return result;
 }
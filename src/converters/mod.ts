@@ -0,0 +1,150 @@
+import type { PRParserConfig } from "../config/mod.ts";
+import type { ConversionCounts } from "../convert/mod.ts";
+
+/**
+ * What a converter produces from its input
+ */
+export interface ConverterOutput {
+  output: string;
+  /** Counts reported in results, zero when left out */
+  counts?: Partial<ConversionCounts>;
+  warnings?: string[];
+}
+
+/**
+ * A transformation of the input, picked by name or by how confident it is
+ * that it understands the input. Transforms throw a ConversionError when the
+ * input cannot be converted.
+ */
+export interface Converter {
+  /** Mode name, e.g. "table", also accepted by --mode */
+  name: string;
+  /** Confidence from 0 (cannot convert the input) to 1 (certain) */
+  detect(input: string, config: PRParserConfig): number;
+  transform(input: string, config: PRParserConfig): ConverterOutput;
+}
+
+/**
+ * Converters by name, in registration order
+ */
+export interface ConverterRegistry {
+  /** Adds a converter, replacing any converter with the same name */
+  register(converter: Converter): void;
+  get(name: string): Converter | undefined;
+  list(): Converter[];
+  /**
+   * Returns the converter most confident about the input, the first
+   * registered one on ties, or undefined when none accepts it
+   */
+  detect(input: string, config: PRParserConfig): Converter | undefined;
+}
+
+/**
+ * Creates a registry holding the given converters
+ */
+export function createConverterRegistry(
+  converters: Converter[] = [],
+): ConverterRegistry {
+  const byName = new Map<string, Converter>();
+  const registry: ConverterRegistry = {
+    register: (converter) => {
+      byName.set(converter.name, converter);
+    },
+    get: (name) => byName.get(name),
+    list: () => Array.from(byName.values()),
+    detect: (input, config) => {
+      let best: Converter | undefined;
+      let bestConfidence = 0;
+      for (const converter of byName.values()) {
+        const confidence = converter.detect(input, config);
+        if (confidence > bestConfidence) {
+          best = converter;
+          bestConfidence = confidence;
+        }
+      }
+      return best;
+    },
+  };
+  converters.forEach(registry.register);
+  return registry;
+}
+
+/**
+ * Raised when a converter module cannot be loaded
+ */
+export class ConverterLoadError extends Error {
+  constructor(message: string, readonly path: string) {
+    super(`${path}: ${message}`);
+    this.name = "ConverterLoadError";
+  }
+}
+
+// URL schemes have two letters or more, a single one is a Windows drive
+const URL_SCHEME = /^[a-z][a-z0-9+.-]+:/i;
+const WINDOWS_DRIVE = /^[a-z]:[\\/]/i;
+
+/**
+ * Tells whether a path is absolute: a POSIX path, a Windows drive path or a
+ * URL
+ * Examples:
+ * - "/repo/tools/jira.ts", "C:\\tools\\jira.ts", "file:///jira.ts" -> true
+ * - "./tools/jira.ts" -> false
+ */
+export function isAbsolutePath(path: string): boolean {
+  return path.startsWith("/") || WINDOWS_DRIVE.test(path) ||
+    URL_SCHEME.test(path);
+}
+
+/**
+ * Turns a module path into the URL to import, resolving relative paths
+ * against the current directory
+ */
+function moduleUrl(path: string): string {
+  if (URL_SCHEME.test(path)) return path;
+  const fileUrl = (absolute: string) =>
+    new URL(
+      WINDOWS_DRIVE.test(absolute)
+        ? `file:///${absolute.replaceAll("\\", "/")}`
+        : `file://${absolute}`,
+    ).href;
+  if (isAbsolutePath(path)) return fileUrl(path);
+  return new URL(path, `${fileUrl(Deno.cwd())}/`).href;
+}
+
+function isConverter(value: unknown): value is Converter {
+  if (typeof value !== "object" || value === null) return false;
+  const { name, detect, transform } = value as Record<string, unknown>;
+  return typeof name === "string" && name.trim() !== "" &&
+    typeof detect === "function" && typeof transform === "function";
+}
+
+/**
+ * Imports converters from local TypeScript modules. Each module default
+ * exports a converter or a list of converters.
+ * Examples:
+ * - "/repo/tools/jira.ts" exporting `default { name: "jira", detect, transform }`
+ */
+export async function loadConverters(paths: string[]): Promise<Converter[]> {
+  const converters: Converter[] = [];
+  for (const path of paths) {
+    let module: { default?: unknown };
+    try {
+      module = await import(moduleUrl(path));
+    } catch (error) {
+      const reason = error instanceof Error ? error.message : String(error);
+      throw new ConverterLoadError(`cannot import (${reason})`, path);
+    }
+
+    const exported = Array.isArray(module.default)
+      ? module.default
+      : [module.default];
+    if (exported.length === 0 || !exported.every(isConverter)) {
+      throw new ConverterLoadError(
+        "expected a default export with a name, detect() and transform(), or a list of them",
+        path,
+      );
+    }
+    converters.push(...exported);
+  }
+  return converters;
+}
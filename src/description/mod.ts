@@ -0,0 +1,149 @@
+import type {
+  DescriptionOptions,
+  ParsedTitle,
+  TitleOptions,
+} from "../types/mod.ts";
+import {
+  formatTicket,
+  linkTicket,
+  renderTitle,
+  ticketUrl,
+} from "../pr-title/mod.ts";
+import { renderTemplate } from "../template/mod.ts";
+
+/**
+ * Placeholders available to description templates
+ */
+export const DESCRIPTION_PLACEHOLDERS = [
+  "title",
+  "ticket",
+  "ticketLink",
+  "ticketUrl",
+  "key",
+  "number",
+  "feature",
+  "part",
+  "partNumber",
+  "partTotal",
+  "partNavigation",
+  "summary",
+  "screenshots",
+] as const;
+
+export const DEFAULT_DESCRIPTION_TEMPLATE = `{ticketLink:Ticket: %}
+
+## Summary
+
+{summary}
+
+{partNavigation}
+
+## Screenshots
+
+{screenshots}
+
+## Testing
+
+- [ ] Tested locally
+- [ ] Added or updated tests`;
+
+export const DEFAULT_DESCRIPTION_OPTIONS: DescriptionOptions = {
+  template: DEFAULT_DESCRIPTION_TEMPLATE,
+  ticketUrl: "",
+};
+
+/**
+ * Text written around the title, filling the {summary} and {screenshots}
+ * placeholders
+ */
+export interface DescriptionContent {
+  /** Notes written after the title, defaults to the feature name */
+  summary?: string;
+  /** Screenshot table, e.g. from generateTable() */
+  screenshots?: string;
+}
+
+/**
+ * Lists the parts of a stacked PR, highlighting the current one. Parts after
+ * the current one are only listed when the total is known.
+ * Examples:
+ * - part 2 of 3 -> "Part 2 of 3:\n1. [MB-80] [PART-1/3] Feature\n2. **[MB-80] [PART-2/3] Feature** (this PR)\n3. ..."
+ * - no part -> ""
+ */
+export function partNavigation(
+  parsed: ParsedTitle,
+  options: Partial<TitleOptions> = {},
+): string {
+  const current = Number(parsed.part);
+  if (!parsed.part || !Number.isInteger(current)) return "";
+  const count = Math.max(current, Number(parsed.partTotal) || 0);
+
+  const items = Array.from({ length: count }, (_, index) => {
+    const part = String(index + 1);
+    const title = renderTitle({ ...parsed, part }, options);
+    return part === parsed.part
+      ? `${part}. **${title}** (this PR)`
+      : `${part}. ${title}`;
+  });
+  const heading = parsed.partTotal
+    ? `Part ${parsed.part} of ${parsed.partTotal}:`
+    : `Part ${parsed.part}:`;
+  return [heading, ...items].join("\n");
+}
+
+/**
+ * Renders a PR description from a parsed title. Empty placeholders are
+ * dropped, along with the blank lines they leave behind.
+ * Examples:
+ * - "{ticketLink:Ticket: %}\n\n{summary}" with [MB-80] Fix login -> "Ticket: MB-80\n\nFix login"
+ * - "## Screenshots\n\n{screenshots}" with a table -> "## Screenshots\n\n<details>..."
+ */
+export function renderDescription(
+  parsed: ParsedTitle,
+  content: DescriptionContent = {},
+  options: Partial<DescriptionOptions> = {},
+  titleOptions: Partial<TitleOptions> = {},
+): string {
+  const { template, ticketUrl: urlTemplate } = {
+    ...DEFAULT_DESCRIPTION_OPTIONS,
+    ...options,
+  };
+  // Multi-line values are put back after the blank lines left by empty
+  // placeholders are removed, keeping their own spacing
+  const blocks: string[] = [];
+  const block = (text: string | undefined) => {
+    if (!text) return undefined;
+    blocks.push(text);
+    return `\uE000${blocks.length - 1}\uE000`;
+  };
+  const [ticket] = parsed.tickets;
+  const feature = renderTemplate("{feature|capitalize}", {
+    feature: parsed.feature,
+  });
+
+  const values = {
+    title: renderTitle(parsed, titleOptions),
+    ticket: parsed.tickets.map(formatTicket).join(", "),
+    ticketLink: parsed.tickets
+      .map((ticket) => linkTicket(ticket, urlTemplate))
+      .join(", "),
+    ticketUrl: ticket ? ticketUrl(ticket, urlTemplate) : undefined,
+    key: ticket?.key,
+    number: ticket?.number,
+    feature: parsed.feature,
+    part: parsed.part && parsed.partTotal
+      ? `${parsed.part}/${parsed.partTotal}`
+      : parsed.part,
+    partNumber: parsed.part,
+    partTotal: parsed.partTotal,
+    partNavigation: block(partNavigation(parsed, titleOptions)),
+    summary: block(content.summary?.trim() || feature),
+    screenshots: block(content.screenshots?.trim()),
+  };
+
+  return renderTemplate(template, values)
+    .replace(/[ \t]+$/gm, "")
+    .replace(/\n{3,}/g, "\n\n")
+    .trim()
+    .replace(/\uE000(\d+)\uE000/g, (_match, index) => blocks[Number(index)]);
+}
@@ -0,0 +1,281 @@
+import type { ParsedTitle, TitleOptions } from "../types/mod.ts";
+import { formatTicket, parseTitle, renderTitle } from "../pr-title/mod.ts";
+
+/**
+ * Runs a git command and returns its trimmed standard output
+ */
+export type GitRunner = (args: string[]) => Promise<string>;
+
+/**
+ * Raised when a git command fails
+ */
+export class GitError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "GitError";
+  }
+}
+
+/**
+ * Runs the local `git` binary in the current directory
+ */
+export const runGit: GitRunner = async (args) => {
+  const process = new Deno.Command("git", {
+    args,
+    stdout: "piped",
+    stderr: "piped",
+  });
+
+  let output: Deno.CommandOutput;
+  try {
+    output = await process.output();
+  } catch (error) {
+    if (error instanceof Deno.errors.NotFound) {
+      throw new GitError("git is not installed");
+    }
+    throw error;
+  }
+
+  if (!output.success) {
+    const stderr = new TextDecoder().decode(output.stderr).trim();
+    throw new GitError(`git ${args.join(" ")} failed: ${stderr}`);
+  }
+
+  return new TextDecoder().decode(output.stdout).trim();
+};
+
+/**
+ * Returns the name of the checked out branch
+ */
+export async function getCurrentBranch(
+  git: GitRunner = runGit,
+): Promise<string> {
+  try {
+    return await git(["symbolic-ref", "--short", "HEAD"]);
+  } catch (error) {
+    if (!(error instanceof GitError)) throw error;
+    throw new GitError("HEAD is detached, check out a branch first");
+  }
+}
+
+/**
+ * Returns the default branch, preferring the remote's HEAD and falling back
+ * to a local main or master branch
+ */
+export async function getDefaultBranch(
+  git: GitRunner = runGit,
+): Promise<string> {
+  try {
+    return await git([
+      "symbolic-ref",
+      "--short",
+      "refs/remotes/origin/HEAD",
+    ]);
+  } catch (error) {
+    if (!(error instanceof GitError)) throw error;
+  }
+
+  for (const candidate of ["main", "master"]) {
+    try {
+      await git(["rev-parse", "--verify", "--quiet", candidate]);
+      return candidate;
+    } catch (error) {
+      if (!(error instanceof GitError)) throw error;
+    }
+  }
+  throw new GitError(
+    "Could not find the default branch (origin/HEAD, main or master)",
+  );
+}
+
+/**
+ * Returns the subject of the first commit made since the branch left `base`
+ */
+export async function getFirstCommitSubject(
+  base: string,
+  git: GitRunner = runGit,
+): Promise<string | undefined> {
+  const mergeBase = await git(["merge-base", "HEAD", base]);
+  const subjects = await git([
+    "log",
+    "--reverse",
+    "--format=%s",
+    `${mergeBase}..HEAD`,
+  ]);
+  return subjects.split("\n").find((subject) => subject.trim() !== "");
+}
+
+/**
+ * Parses a branch name into a title, ignoring prefixes such as "feature/"
+ * Examples:
+ * - "MB-95-preferred-times/remove-minimum" -> [MB-95] Remove minimum
+ * - "feature/MB-80-group-by-lot" -> [MB-80] Group by lot
+ * - "123-fix-login" -> #123 Fix login (GitHub issue)
+ * - "fix-typo" -> [no-ticket] Fix typo
+ */
+export function parseBranchName(
+  branch: string,
+  options: Partial<TitleOptions> = {},
+): ParsedTitle {
+  const ticketStart = branch.search(/(?:^|\/)[A-Za-z]+-\d+(?:[-/]|$)/);
+  if (ticketStart === -1) {
+    // GitHub issue branches start with the issue number
+    const issue = branch.match(/(?:^|\/)(\d+)(?:[-/](.*))?$/);
+    if (issue) {
+      const rest = (issue[2] ?? "").replace(/[_/-]+/g, " ");
+      return {
+        ...parseTitle(`no ticket ${rest}`, options),
+        tickets: [{ key: "", number: issue[1] }],
+        noTicket: false,
+      };
+    }
+    const slug = branch.slice(branch.lastIndexOf("/") + 1);
+    return parseTitle(`no ticket ${slug.replace(/[_-]+/g, " ")}`, options);
+  }
+
+  const ticketBranch = branch.slice(ticketStart).replace(/^\//, "");
+  const ticketOnly = ticketBranch.match(/^([A-Za-z]+)-(\d+)\/?$/);
+  if (ticketOnly) {
+    return parseTitle(`${ticketOnly[1]} ${ticketOnly[2]}`, options);
+  }
+  return parseTitle(ticketBranch, options);
+}
+
+/**
+ * Builds a PR title from the current git branch. When the branch has no
+ * feature slug, the first commit subject since the merge-base with the
+ * default branch is used instead.
+ */
+export async function titleFromGit(
+  options: Partial<TitleOptions> = {},
+  git: GitRunner = runGit,
+): Promise<ParsedTitle> {
+  const branch = await getCurrentBranch(git);
+  const parsed = parseBranchName(branch, options);
+  if (parsed.feature) {
+    return parsed;
+  }
+
+  let subject: string | undefined;
+  try {
+    subject = await getFirstCommitSubject(await getDefaultBranch(git), git);
+  } catch (error) {
+    if (!(error instanceof GitError)) throw error;
+    return {
+      ...parsed,
+      warnings: [
+        ...parsed.warnings,
+        `No commit subject used: ${error.message}`,
+      ],
+    };
+  }
+  if (!subject) {
+    return parsed;
+  }
+
+  // Drop a ticket prefix the subject may already carry, e.g. "[MB-80] Fix"
+  const ids = parsed.tickets.map(formatTicket);
+  let feature = subject;
+  for (const id of ids) {
+    feature = feature.replace(
+      new RegExp(`^[\\[(]?${id}[\\])]?:?\\s*`, "i"),
+      "",
+    );
+  }
+  const subjectTitle = parseTitle(`no ticket ${feature}`, options);
+  return {
+    ...parsed,
+    part: parsed.part ?? subjectTitle.part,
+    feature: subjectTitle.feature,
+  };
+}
+
+// Line above the diff that `git commit --verbose` appends to the message
+const SCISSORS_LINE = /^# -+ >8 -+$/m;
+
+/**
+ * Returns the text of a commit message as git will keep it: without the
+ * comment lines of its template and the diff below the scissors line
+ */
+function messageText(message: string): string {
+  const scissors = message.match(SCISSORS_LINE);
+  return message
+    .slice(0, scissors?.index ?? message.length)
+    .split("\n")
+    .filter((line) => !line.startsWith("#"))
+    .join("\n");
+}
+
+/**
+ * Prefixes a commit message with the ticket of the branch, leaving it alone
+ * when the message already mentions the ticket as a whole word. Comments
+ * from git's template are ignored.
+ * Examples (prefix "[MB-80]"):
+ * - "Fix login" -> "[MB-80] Fix login"
+ * - "[MB-80] Fix login" -> unchanged
+ * - "Follow-up to MB-800" -> "[MB-80] Follow-up to MB-800"
+ * - "" (editor template) -> "[MB-80] "
+ */
+export function prefixCommitMessage(
+  message: string,
+  prefix: string,
+  ids: string[],
+): string {
+  if (!prefix) {
+    return message;
+  }
+  const text = messageText(message);
+  const mentioned = ids.some((id) =>
+    new RegExp(`(?<![\\w-])${id}(?!\\w)`, "i").test(text)
+  );
+  if (mentioned) {
+    return message;
+  }
+  return `${prefix} ${message}`;
+}
+
+// Sources for which git already provides a meaningful message
+const SKIPPED_HOOK_SOURCES = ["merge", "squash", "commit"];
+
+/**
+ * Implements the `prepare-commit-msg` hook: prefixes the message file with
+ * the ticket of the current branch
+ */
+export async function runPrepareCommitMsgHook(
+  messageFile: string,
+  source: string | undefined,
+  options: Partial<TitleOptions> = {},
+  git: GitRunner = runGit,
+): Promise<void> {
+  if (source && SKIPPED_HOOK_SOURCES.includes(source)) {
+    return;
+  }
+
+  let branch: string;
+  try {
+    branch = await getCurrentBranch(git);
+  } catch (error) {
+    // Never block a commit, e.g. during a rebase on a detached HEAD
+    if (error instanceof GitError) return;
+    throw error;
+  }
+
+  const parsed = parseBranchName(branch, options);
+  if (parsed.tickets.length === 0) {
+    return;
+  }
+
+  const prefix = renderTitle(
+    { ...parsed, part: undefined, feature: "" },
+    options,
+  );
+  const message = await Deno.readTextFile(messageFile);
+  const prefixed = prefixCommitMessage(
+    message,
+    prefix,
+    parsed.tickets.map(formatTicket),
+  );
+  if (prefixed !== message) {
+    await Deno.writeTextFile(messageFile, prefixed);
+  }
+}
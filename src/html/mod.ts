@@ -0,0 +1,154 @@
+/**
+ * A start or end tag found in HTML
+ */
+export interface HtmlTag {
+  /** Lowercase tag name, e.g. "img" */
+  name: string;
+  /** True for end tags such as `</video>` */
+  closing: boolean;
+  /** Decoded attribute values by lowercase name; valueless attributes are "" */
+  attributes: Record<string, string>;
+  /** Offset of the `<` in the input */
+  start: number;
+  /** Offset just after the `>` */
+  end: number;
+}
+
+const NAMED_ENTITIES: Record<string, string> = {
+  amp: "&",
+  lt: "<",
+  gt: ">",
+  quot: '"',
+  apos: "'",
+  nbsp: " ",
+};
+
+/**
+ * Decodes HTML entities, leaving unknown ones untouched
+ * Examples:
+ * - "Tom &amp; Jerry" -> "Tom & Jerry"
+ * - "&#39;hi&#x27;" -> "'hi'"
+ * - "&unknown;" -> "&unknown;"
+ */
+export function decodeEntities(text: string): string {
+  return text.replace(
+    /&(?:#(\d+)|#x([0-9a-f]+)|([a-z]+));/gi,
+    (entity, decimal, hex, name) => {
+      if (decimal || hex) {
+        const codePoint = parseInt(decimal ?? hex, decimal ? 10 : 16);
+        return codePoint > 0 && codePoint <= 0x10ffff
+          ? String.fromCodePoint(codePoint)
+          : entity;
+      }
+      return NAMED_ENTITIES[name.toLowerCase()] ?? entity;
+    },
+  );
+}
+
+/**
+ * Escapes text for use in HTML content or a quoted attribute value
+ * Examples:
+ * - 'He said "hi" <b>' -> "He said &quot;hi&quot; &lt;b&gt;"
+ * - "a.png?w=1&h=2" -> "a.png?w=1&amp;h=2"
+ */
+export function escapeHtml(text: string): string {
+  return text
+    .replace(/&/g, "&amp;")
+    .replace(/</g, "&lt;")
+    .replace(/>/g, "&gt;")
+    .replace(/"/g, "&quot;")
+    .replace(/'/g, "&#39;");
+}
+
+/**
+ * Lists the tags of an HTML snippet in document order. Attributes may be
+ * double-quoted, single-quoted or unquoted, and quoted values may hold `>`.
+ * Comments are skipped and text that does not form a tag is ignored.
+ * Examples:
+ * - `<img alt='a > b' src=x.png>` -> [{ name: "img", attributes: { alt: "a > b", src: "x.png" } }]
+ * - "<video src=a.mp4></video>" -> [{ name: "video" }, { name: "video", closing: true }]
+ */
+export function tokenizeTags(html: string): HtmlTag[] {
+  const tags: HtmlTag[] = [];
+  let index = 0;
+
+  while (index < html.length) {
+    const start = html.indexOf("<", index);
+    if (start === -1) break;
+
+    if (html.startsWith("<!--", start)) {
+      const close = html.indexOf("-->", start + 4);
+      index = close === -1 ? html.length : close + 3;
+      continue;
+    }
+
+    const nameMatch = html.slice(start).match(/^<(\/?)([a-z][a-z0-9-]*)/i);
+    if (!nameMatch) {
+      index = start + 1;
+      continue;
+    }
+
+    const attributes: Record<string, string> = {};
+    let cursor = start + nameMatch[0].length;
+    let end = -1;
+
+    while (cursor < html.length) {
+      const char = html[cursor];
+      if (char === ">") {
+        end = cursor + 1;
+        break;
+      }
+      if (/[\s/]/.test(char)) {
+        cursor += 1;
+        continue;
+      }
+      if (char === "<") {
+        // Unterminated tag, e.g. "<img alt=x <img ...>"
+        break;
+      }
+
+      const attributeName = html.slice(cursor).match(/^[^\s"'>/=<]+/)?.[0] ??
+        char;
+      cursor += attributeName.length;
+      while (/\s/.test(html[cursor] ?? "")) cursor += 1;
+
+      let value = "";
+      if (html[cursor] === "=") {
+        cursor += 1;
+        while (/\s/.test(html[cursor] ?? "")) cursor += 1;
+        const quote = html[cursor];
+        if (quote === '"' || quote === "'") {
+          const close = html.indexOf(quote, cursor + 1);
+          const valueEnd = close === -1 ? html.length : close;
+          value = html.slice(cursor + 1, valueEnd);
+          cursor = valueEnd + 1;
+        } else {
+          value = html.slice(cursor).match(/^[^\s>]*/)?.[0] ?? "";
+          cursor += value.length;
+        }
+      }
+
+      const key = attributeName.toLowerCase();
+      // The first occurrence wins, as in browsers
+      if (!(key in attributes)) {
+        attributes[key] = decodeEntities(value);
+      }
+    }
+
+    if (end === -1) {
+      index = start + 1;
+      continue;
+    }
+
+    tags.push({
+      name: nameMatch[2].toLowerCase(),
+      closing: nameMatch[1] === "/",
+      attributes,
+      start,
+      end,
+    });
+    index = end;
+  }
+
+  return tags;
+}
@@ -1,7 +1,65 @@
-import type { ImageInfo } from "../types/mod.ts";
+import type {
+  ComparisonState,
+  ImageGroup,
+  ImageInfo,
+  ImageOptions,
+  MediaType,
+} from "../types/mod.ts";
+import { decodeEntities, tokenizeTags } from "../html/mod.ts";
+
+export const DEFAULT_IMAGE_OPTIONS: ImageOptions = {
+  states: [
+    {
+      keyword: "before",
+      label: "Before",
+      synonyms: ["old", "prev", "previous", "current", "avant", "vorher"],
+    },
+    {
+      keyword: "after",
+      label: "After",
+      synonyms: ["new", "next", "proposed", "après", "apres", "nachher"],
+    },
+  ],
+  labels: {},
+  pairByOrder: false,
+};
+
+/**
+ * Returns the column header of a comparison state, preferring a localized
+ * label from `labels`
+ */
+export function stateLabel(
+  state: ComparisonState,
+  labels: Record<string, string> = {},
+): string {
+  return labels[state.keyword] ?? state.label ??
+    state.keyword.charAt(0).toUpperCase() + state.keyword.slice(1);
+}
+
+function escapeRegExp(text: string): string {
+  return text.replace(/[.*+?^${}()|[\]\\]/g, "\\$&");
+}
+
+/**
+ * Decodes a file name from a URL, keeping it as it is when it holds a
+ * malformed escape such as "100%_done.mp4"
+ */
+function decodeFileName(fileName: string): string {
+  try {
+    return decodeURIComponent(fileName);
+  } catch {
+    return fileName;
+  }
+}
+
+// Separators allowed between a state keyword and the name
+const SEPARATOR = "[\\s._:-]";
 
 /**
- * Parses a filename with number prefix and extracts timing information
+ * Parses a filename with number prefix and extracts timing information.
+ * State keywords are detected as a suffix, synonyms as a suffix set apart by
+ * "_", "-", ".", ":" or () and [], and both as a prefix set apart the same
+ * way, so that "Create new" or "Show previous" stay standalone.
  * Examples:
  * - "1. Feature_1_before" -> { order: 1, name: "Feature 1", timing: "before" }
  * - "2.Feature 25_before" -> { order: 2, name: "Feature 25", timing: "before" }
@@ -9,48 +67,239 @@ import type { ImageInfo } from "../types/mod.ts";
  * - "4feature54_after" -> { order: 4, name: "feature54", timing: "after" }
  * - "5 feature whatever before" -> { order: 5, name: "feature whatever", timing: "before" }
  * - "5 feature whatever after" -> { order: 5, name: "feature whatever", timing: "after" }
+ * - "login-new" -> { order: 0, name: "login", timing: "after" }
+ * - "login (before)" -> { order: 0, name: "login", timing: "before" }
+ * - "1 Create new" -> { order: 1, name: "Create new", timing: "standalone" }
+ * - "BEFORE - login" -> { order: 0, name: "login", timing: "before" }
+ * - "6 Home_dark" with states light/dark -> { order: 6, name: "Home", timing: "dark" }
+ * - "1.2 Cart before" -> { section: 1, order: 2, name: "Cart", timing: "before" }
+ * - "2-3 Payment" -> { section: 2, order: 3, name: "Payment", timing: "standalone" }
  */
-export function parseFilename(filename: string): {
+export function parseFilename(
+  filename: string,
+  states: ComparisonState[] = DEFAULT_IMAGE_OPTIONS.states,
+): {
   order: number;
-  timing: "before" | "after" | "standalone";
+  /** Section number of "1.2"-style prefixes, where `order` is the item */
+  section?: number;
+  timing: string;
   formattedAlt: string;
 } {
-  // Remove number prefix (e.g., "1.", "2.", "3 ", "4")
-  const prefixMatch = filename.match(/^(\d+)\.?\s*/);
-  const order = prefixMatch ? parseInt(prefixMatch[1]) : 0;
-  const withoutPrefix = filename.replace(/^\d+\.?\s*/, "");
+  // Remove number prefix (e.g., "1.", "2.", "3 ", "4"), or a section/item
+  // prefix (e.g., "1.2", "2-3")
+  const sectionMatch = filename.match(/^(\d+)[.-](\d+)(?=[\s._-]|$)\.?\s*/);
+  const prefixMatch = sectionMatch ?? filename.match(/^(\d+)\.?\s*/);
+  const section = sectionMatch ? parseInt(sectionMatch[1]) : undefined;
+  const order = sectionMatch
+    ? parseInt(sectionMatch[2])
+    : prefixMatch
+    ? parseInt(prefixMatch[1])
+    : 0;
+  const withoutPrefix = filename.slice(prefixMatch?.[0].length ?? 0);
+  const result = (timing: string, formattedAlt: string) =>
+    section === undefined
+      ? { order, timing, formattedAlt }
+      : { order, section, timing, formattedAlt };
 
   // Convert underscores to spaces
   const normalized = withoutPrefix.replace(/_/g, " ");
 
-  // Check for trailing "before" or "after" (case-insensitive)
-  // Also supports common filename suffixes like "before.png" / "after.jpg"
-  const beforeMatch = normalized.match(/\s+before(?:\.[a-z0-9]+)?\s*$/i);
-  const afterMatch = normalized.match(/\s+after(?:\.[a-z0-9]+)?\s*$/i);
+  // Try every keyword and synonym, longest first so that "extra dark" wins
+  // over "dark"
+  const candidates = states
+    .flatMap((state) =>
+      [state.keyword, ...(state.synonyms ?? [])].map((word, index) => ({
+        keyword: state.keyword,
+        word: escapeRegExp(word.trim()).replace(/ +/g, "\\s+"),
+        synonym: index > 0,
+      }))
+    )
+    .sort((a, b) => b.word.length - a.word.length);
 
-  let timing: "before" | "after" | "standalone" = "standalone";
-  let content = normalized.trim();
+  // Suffix, e.g. "login before", "login-new", "login (old)", also
+  // supporting common filename suffixes like "before.png" / "after.jpg".
+  // Synonyms are common words, so a space alone does not set them apart.
+  for (const { keyword, word, synonym } of candidates) {
+    const suffix = synonym
+      ? withoutPrefix.match(
+        new RegExp(
+          `^(.*?\\S)(?:\\s*[(\\[]\\s*${word}\\s*[)\\]]|\\s*[_.:-]${SEPARATOR}*${word})(?:\\.[a-z0-9]+)?\\s*$`,
+          "i",
+        ),
+      )
+      : normalized.match(
+        new RegExp(
+          `^(.*?\\S)\\s*(?:${SEPARATOR}+|[(\\[]\\s*)${word}\\s*[)\\]]?(?:\\.[a-z0-9]+)?\\s*$`,
+          "i",
+        ),
+      );
+    if (suffix) {
+      return result(keyword, suffix[1].replace(/_/g, " ").trim());
+    }
+  }
 
-  if (beforeMatch) {
-    timing = "before";
-    // Remove the trailing "before" from content
-    content = normalized.replace(/\s+before(?:\.[a-z0-9]+)?\s*$/i, "").trim();
-  } else if (afterMatch) {
-    timing = "after";
-    // Remove the trailing "after" from content
-    content = normalized.replace(/\s+after(?:\.[a-z0-9]+)?\s*$/i, "").trim();
+  // Prefix, e.g. "old_login", "BEFORE - login", "[after] login.png". The
+  // word must be bracketed or followed by "_", ".", ":" or a spaced dash, so
+  // that names such as "New user onboarding" or "Old-school theme" are kept
+  for (const { keyword, word } of candidates) {
+    const prefix = withoutPrefix.match(
+      new RegExp(
+        `^\\s*(?:[(\\[]\\s*${word}\\s*[)\\]]|${word}(?=\\s*[_.:]|\\s+-))${SEPARATOR}*(\\S.*)$`,
+        "i",
+      ),
+    );
+    if (prefix) {
+      return result(
+        keyword,
+        prefix[1]
+          .replace(/_/g, " ")
+          .replace(/\.(?:png|jpe?g|gif|webp|avif|heic)$/i, "")
+          .trim(),
+      );
+    }
   }
 
-  return {
-    order,
-    timing,
-    formattedAlt: content,
+  return result("standalone", normalized.trim());
+}
+
+// Extensions of media that cannot be shown with <img>
+const VIDEO_EXTENSIONS = ["mp4", "mov", "webm", "m4v"];
+const GITHUB_ATTACHMENT_URL =
+  /^https:\/\/github\.com\/user-attachments\/assets\/[\w-]+$/i;
+
+function urlExtension(src: string): string {
+  const path = src.split(/[?#]/)[0];
+  const match = path.match(/\.([a-z0-9]+)$/i);
+  return match ? match[1].toLowerCase() : "";
+}
+
+/**
+ * Tells whether a URL points to media worth putting in a table on its own:
+ * a GitHub attachment (videos are pasted as bare URLs), a video or a GIF
+ */
+function isMediaUrl(url: string): boolean {
+  const extension = urlExtension(url);
+  return GITHUB_ATTACHMENT_URL.test(url.split(/[?#]/)[0]) ||
+    extension === "gif" || VIDEO_EXTENSIONS.includes(extension);
+}
+
+/**
+ * Picks the media type from the source URL, the tag it was found in, or for
+ * bare URLs the fact that GitHub only pastes videos that way
+ * Examples:
+ * - "demo.gif" -> "gif"
+ * - "demo.mov" -> "video"
+ * - "https://github.com/user-attachments/assets/1a2b" as a bare URL -> "video"
+ * - "https://github.com/user-attachments/assets/1a2b" in <img> -> "image"
+ */
+export function detectMediaType(
+  src: string,
+  source: "img" | "video" | "url" = "img",
+): MediaType {
+  const extension = urlExtension(src);
+  if (extension === "gif") return "gif";
+  if (source === "video" || VIDEO_EXTENSIONS.includes(extension)) {
+    return "video";
+  }
+  if (source === "url" && extension === "") return "video";
+  return "image";
+}
+
+interface LocatedImage {
+  /** Offset of the media in the input, to keep document order */
+  index: number;
+  /** Offset just after the media, including a closing tag */
+  end: number;
+  image: ImageInfo;
+}
+
+function toImageInfo(
+  originalAlt: string,
+  src: string,
+  mediaType: MediaType,
+  states: ComparisonState[],
+): ImageInfo {
+  const parsed = parseFilename(originalAlt, states);
+  const image: ImageInfo = {
+    alt: parsed.formattedAlt,
+    src,
+    category: parsed.formattedAlt,
+    timing: parsed.timing,
+    order: parsed.order,
+    mediaType,
   };
+  if (parsed.section !== undefined) image.section = parsed.section;
+  return image;
 }
 
-export function parseImagesMarkdown(markdownContent: string): ImageInfo[] {
-  const images: ImageInfo[] = [];
-  const content = markdownContent;
+/**
+ * Sorts by the order prefix, keeping document order for equal prefixes
+ */
+function sortByOrder(located: LocatedImage[]): ImageInfo[] {
+  const images = located
+    .sort((a, b) => a.index - b.index)
+    .map(({ image }) => image);
+  // Once sections are used, a plain "2 Payment" prefix opens section 2
+  if (images.some((image) => image.section !== undefined)) {
+    for (const image of images) {
+      if (image.section === undefined && image.order > 0) {
+        image.section = image.order;
+        image.order = 0;
+      }
+    }
+  }
+  return images.sort(compareImageOrder);
+}
+
+/**
+ * Compares images or groups by section, then by order within the section.
+ * Images without a section sort as section 0.
+ */
+export function compareImageOrder(
+  a: { section?: number; order: number },
+  b: { section?: number; order: number },
+): number {
+  return (a.section ?? 0) - (b.section ?? 0) || a.order - b.order;
+}
+
+/**
+ * Titles each section: an explicit title, else the name of its `0` item
+ * ("1.0 Checkout" or "1 Checkout"), else the words shared by the start of
+ * every name ("Checkout cart", "Checkout payment" -> "Checkout"), else
+ * "Section N"
+ */
+export function sectionTitles(images: ImageInfo[]): Map<number, string> {
+  const sections = new Map<number, ImageInfo[]>();
+  for (const image of images) {
+    const section = image.section ?? 0;
+    sections.set(section, [...(sections.get(section) ?? []), image]);
+  }
+
+  const titles = new Map<number, string>();
+  for (const [section, members] of sections) {
+    const explicit = members.find((image) => image.sectionTitle)?.sectionTitle;
+    const zeroItem = members.find((image) => image.order === 0)?.category;
+    const words = members.map((image) => image.category.split(/\s+/));
+    const shared: string[] = [];
+    for (let i = 0; i < words[0].length; i++) {
+      const word = words[0][i].toLowerCase();
+      if (!words.every((other) => other[i]?.toLowerCase() === word)) break;
+      shared.push(words[0][i]);
+    }
+    titles.set(
+      section,
+      formatCategoryTitle(explicit || zeroItem || shared.join(" ")) ||
+        `Section ${section}`,
+    );
+  }
+  return titles;
+}
+
+function collectMarkdownImages(
+  content: string,
+  states: ComparisonState[],
+): LocatedImage[] {
+  const images: LocatedImage[] = [];
 
   const readUntil = (
     startIndex: number,
@@ -116,104 +365,761 @@ export function parseImagesMarkdown(markdownContent: string): ImageInfo[] {
     }
 
     if (originalAlt && src) {
-      const parsed = parseFilename(originalAlt);
       images.push({
-        alt: parsed.formattedAlt,
-        src,
-        category: parsed.formattedAlt,
-        timing: parsed.timing,
-        order: parsed.order,
+        index: start,
+        end: cursor,
+        image: toImageInfo(originalAlt, src, detectMediaType(src), states),
       });
     }
 
     index = cursor;
   }
 
-  images.sort((a, b) => a.order - b.order);
   return images;
 }
 
-export function parseImagesFromClipboard(clipboardContent: string): ImageInfo[] {
-  const trimmed = clipboardContent.trim();
-  if (trimmed.startsWith("<img")) {
-    return parseImages(trimmed);
+export function parseImagesMarkdown(
+  markdownContent: string,
+  options: Partial<ImageOptions> = {},
+): ImageInfo[] {
+  const { states } = { ...DEFAULT_IMAGE_OPTIONS, ...options };
+  return sortByOrder(collectMarkdownImages(markdownContent, states));
+}
+
+const isPlainText = (line: string) =>
+  line !== "" && !/[<>]|!\[|https?:\/\//.test(line);
+
+/**
+ * Tells whether a line clearly names the media URL below it, which takes a
+ * number prefix: prose right above a video is left alone
+ * Examples:
+ * - "2. Login after" -> true
+ * - "1.2 Settings dark" -> true
+ * - "The spinner no longer freezes, see below." -> false
+ */
+function isNameLine(line: string): boolean {
+  return isPlainText(line) && /^\d+(?:[.-]\d+)*[.)]?[\s._-]+\S/.test(line);
+}
+
+/**
+ * Finds media URLs standing on their own line, as GitHub pastes videos.
+ * The name comes from text before the URL on the same line, a numbered
+ * line right above it, or the file name in the URL. The located media
+ * starts at its numbered name line when it has one, otherwise at the URL
+ * line, so that prose above a video is left in place.
+ * Examples:
+ * - "1. Login before: https://github.com/user-attachments/assets/1a2b"
+ * - "2. Login after\nhttps://github.com/user-attachments/assets/3c4d"
+ * - "https://example.com/login_before.mp4"
+ */
+function collectBareMediaUrls(
+  content: string,
+  states: ComparisonState[],
+): LocatedImage[] {
+  const images: LocatedImage[] = [];
+
+  let offset = 0;
+  // Numbered line right above the current one, naming a following URL
+  let previousName: { text: string; start: number } | undefined;
+  let unnamed = 0;
+  for (const line of content.split("\n")) {
+    const trimmed = line.trim();
+    const lineStart = offset + line.length - line.trimStart().length;
+    const match = trimmed.match(/^(?:(.+?)\s*:?\s+)?(https?:\/\/\S+)$/);
+    if (match && isMediaUrl(match[2]) && (!match[1] || isPlainText(match[1]))) {
+      const src = match[2];
+      let name = match[1] ?? previousName?.text;
+      if (!name) {
+        const fileName = decodeFileName(
+          src.split(/[?#]/)[0].split("/").pop() ?? "",
+        );
+        unnamed += 1;
+        name = urlExtension(src) ? fileName : `Video ${unnamed}`;
+      }
+      images.push({
+        index: match[1] ? lineStart : previousName?.start ?? lineStart,
+        end: offset + line.indexOf(src) + src.length,
+        image: toImageInfo(name, src, detectMediaType(src, "url"), states),
+      });
+      previousName = undefined;
+    } else {
+      previousName = isNameLine(trimmed)
+        ? { text: trimmed, start: lineStart }
+        : undefined;
+    }
+    offset += line.length + 1;
+  }
+  return images;
+}
+
+/**
+ * Tells whether content holds media rather than a PR title: image or video
+ * tags, Markdown images, or media URLs on their own line
+ */
+export function isMediaSnippet(content: string): boolean {
+  const trimmed = content.trim();
+  return /^(?:<img|<video|<details|<table|!\[)/i.test(trimmed) ||
+    collectBareMediaUrls(trimmed, []).length > 0;
+}
+
+/**
+ * Tells whether image content is written as HTML tags or Markdown images.
+ * Bare media URLs count as HTML, where GitHub can play videos inline.
+ * Examples:
+ * - "<img alt=\"1. Login\" src=\"a.png\">" -> "html"
+ * - "<details><summary>...</summary><table>..." -> "html"
+ * - "![1. Login](a.png)" -> "markdown"
+ * - "https://github.com/user-attachments/assets/1a2b" -> "html"
+ */
+export function detectImageSyntax(content: string): "html" | "markdown" {
+  const trimmed = content.trim();
+  if (/^<(?:img|video|details|table)/i.test(trimmed)) return "html";
+  if (/^(?:###[^\n]*\n\s*)?\|/.test(trimmed)) return "markdown";
+  return trimmed.includes("![") ? "markdown" : "html";
+}
+
+interface TableCell {
+  header: boolean;
+  colspan: number;
+  /** Decoded text of the cell, e.g. a title or a video URL */
+  text: string;
+  /** Videos are links in Markdown tables */
+  image?: {
+    src: string;
+    alt: string;
+    video?: boolean;
+    width?: number;
+    height?: number;
+  };
+}
+
+/**
+ * Reads the rows of every generated table in the content, HTML or Markdown,
+ * returning them in document order with the ranges they cover
+ */
+function readTables(
+  content: string,
+): {
+  tables: { rows: TableCell[][]; title?: string }[];
+  ranges: [number, number][];
+} {
+  const found = [readHtmlTables(content), readMarkdownTables(content)]
+    .flatMap(({ tables, ranges }) =>
+      tables.map((table, index) => ({ table, range: ranges[index] }))
+    )
+    .sort((a, b) => a.range[0] - b.range[0]);
+  return {
+    tables: found.map(({ table }) => table),
+    ranges: found.map(({ range }) => range),
+  };
+}
+
+/**
+ * Reads the rows of every <table> in the content, returning them with the
+ * ranges the tables cover
+ */
+function readHtmlTables(
+  content: string,
+): {
+  tables: { rows: TableCell[][]; title?: string }[];
+  ranges: [number, number][];
+} {
+  const tags = tokenizeTags(content);
+  const tables: { rows: TableCell[][]; title?: string }[] = [];
+  const ranges: [number, number][] = [];
+  let rows: TableCell[][] = [];
+  let tableStart = -1;
+  let row: TableCell[] | undefined;
+  let cell: TableCell | undefined;
+  let textStart = 0;
+  let text = "";
+  // Section title from the <summary> or <h3> preceding a table
+  let titleStart = -1;
+  let title: string | undefined;
+
+  for (const tag of tags) {
+    if (cell) {
+      text += content.slice(textStart, tag.start);
+      textStart = tag.end;
+    }
+    if (tag.name === "table") {
+      if (!tag.closing && tableStart === -1) {
+        tableStart = tag.start;
+        rows = [];
+      }
+      if (tag.closing && tableStart !== -1) {
+        ranges.push([tableStart, tag.end]);
+        tables.push({ rows, title });
+        tableStart = -1;
+        title = undefined;
+      }
+    } else if (tableStart === -1) {
+      if (tag.name === "summary" || tag.name === "h3") {
+        if (!tag.closing) {
+          titleStart = tag.end;
+        } else if (titleStart !== -1) {
+          title = decodeEntities(
+            content.slice(titleStart, tag.start).replace(/<[^>]*>/g, ""),
+          ).trim();
+          titleStart = -1;
+        }
+      }
+      continue;
+    } else if (tag.name === "tr") {
+      if (!tag.closing) rows.push(row = []);
+    } else if ((tag.name === "td" || tag.name === "th") && row) {
+      if (tag.closing && cell) {
+        cell.text = decodeEntities(text).trim();
+        row.push(cell);
+        cell = undefined;
+      } else if (!tag.closing) {
+        cell = {
+          header: tag.name === "th",
+          colspan: parseInt(tag.attributes.colspan ?? "") || 1,
+          text: "",
+        };
+        textStart = tag.end;
+        text = "";
+      }
+    } else if (tag.name === "img" && cell && !cell.image) {
+      cell.image = {
+        src: tag.attributes.src ?? "",
+        alt: tag.attributes.alt ?? "",
+      };
+      for (const dimension of ["width", "height"] as const) {
+        const value = parseInt(tag.attributes[dimension] ?? "");
+        if (value > 0) cell.image[dimension] = value;
+      }
+    }
+  }
+  return { tables, ranges };
+}
+
+// Separator row under the header row of a Markdown pipe table
+const PIPE_TABLE_SEPARATOR = /^\|(?:\s*:?-{3,}:?\s*\|)+$/;
+// Image or video link in a Markdown table cell, e.g. "![Login](a.png)" or
+// "[▶ Demo](<my demo.mp4>)"
+const PIPE_TABLE_MEDIA =
+  /^(?:!\[((?:\\.|[^\\\]])*)\]|\[▶\s*((?:\\.|[^\\\]])*)\])\((?:<([^>]*)>|([^\s)]+))\)$/;
+
+function isPipeRow(line: string): boolean {
+  const trimmed = line.trim();
+  return trimmed.length > 1 && trimmed.startsWith("|") && trimmed.endsWith("|");
+}
+
+/**
+ * Splits a Markdown table row into its cells, keeping escaped pipes
+ */
+function splitPipeRow(line: string): string[] {
+  const inner = line.trim().slice(1, -1);
+  const cells: string[] = [];
+  let cell = "";
+  for (let i = 0; i < inner.length; i++) {
+    if (inner[i] === "\\" && i + 1 < inner.length) {
+      cell += inner[i] + inner[++i];
+    } else if (inner[i] === "|") {
+      cells.push(cell.trim());
+      cell = "";
+    } else {
+      cell += inner[i];
+    }
+  }
+  return [...cells, cell.trim()];
+}
+
+function unescapeMarkdownCell(text: string): string {
+  return text.replace(/\\([\\|\[\]])/g, "$1");
+}
+
+/**
+ * Reads a cell of a table produced by generateMarkdownTable(): an image, a
+ * video link, or a title, bold in header rows after the first
+ */
+function readPipeCell(text: string, header: boolean): TableCell {
+  const media = text.match(PIPE_TABLE_MEDIA);
+  if (media) {
+    return {
+      header: false,
+      colspan: 1,
+      text: "",
+      image: {
+        src: media[3] ?? media[4],
+        alt: unescapeMarkdownCell(media[1] ?? media[2]),
+        video: media[2] !== undefined,
+      },
+    };
   }
-  return parseImagesMarkdown(trimmed);
+  return {
+    header,
+    colspan: 1,
+    text: unescapeMarkdownCell(text.replace(/^\*\*(.*)\*\*$/, "$1")),
+  };
 }
 
 /**
- * Parses HTML content and extracts image information
+ * Reads the rows of every Markdown pipe table in the content, with the
+ * "### Title" heading of its section, returning them with the ranges they
+ * cover. Markdown cells cannot span columns, so a header row followed by
+ * another one names a category, as a spanning header row does in HTML.
  */
-export function parseImages(htmlContent: string): ImageInfo[] {
-  const imgRegex = /<img[^>]+>/gi;
+function readMarkdownTables(
+  content: string,
+): {
+  tables: { rows: TableCell[][]; title?: string }[];
+  ranges: [number, number][];
+} {
+  const tables: { rows: TableCell[][]; title?: string }[] = [];
+  const ranges: [number, number][] = [];
+  const lines = content.split("\n");
+  const starts: number[] = [];
+  lines.reduce((offset, line) => {
+    starts.push(offset);
+    return offset + line.length + 1;
+  }, 0);
+
+  for (let i = 0; i < lines.length - 1; i++) {
+    if (
+      !isPipeRow(lines[i]) || !PIPE_TABLE_SEPARATOR.test(lines[i + 1].trim())
+    ) {
+      continue;
+    }
+    let end = i + 2;
+    while (end < lines.length && isPipeRow(lines[end])) end++;
+
+    const cells = [lines[i], ...lines.slice(i + 2, end)].map(splitPipeRow);
+    const header = cells.map((row, index) =>
+      index === 0 ||
+      (row.some(Boolean) &&
+        row.every((cell) => !cell || /^\*\*.*\*\*$/.test(cell)))
+    );
+    const rows = cells.map((row, index) =>
+      header[index] && header[index + 1] && row[0] &&
+        row.filter(Boolean).length === 1
+        ? [{
+          header: true,
+          colspan: row.length,
+          text: readPipeCell(row[0], true).text,
+        }]
+        : row.map((cell) => readPipeCell(cell, header[index]))
+    );
+
+    let start = starts[i] + lines[i].length - lines[i].trimStart().length;
+    let title: string | undefined;
+    const headingLine = lines[i - 1]?.trim() === "" ? i - 2 : i - 1;
+    const heading = lines[headingLine]?.trim().match(/^###\s+(.+)$/);
+    if (heading) {
+      title = unescapeMarkdownCell(heading[1]);
+      start = starts[headingLine] + lines[headingLine].indexOf("#");
+    }
+
+    tables.push({ rows, title });
+    ranges.push([start, starts[end - 1] + lines[end - 1].trimEnd().length]);
+    i = end - 1;
+  }
+  return { tables, ranges };
+}
+
+/**
+ * Rebuilds the images of a table produced by generateTable() or
+ * generateMarkdownTable(): title rows name the standalone images below them,
+ * a spanning header row names a category and the following row maps its
+ * columns to comparison states. Images get consecutive orders from their
+ * position in the table. Several tables are read as sections, titled by
+ * their <summary>, <h3> or "### " heading.
+ */
+export function parseTable(
+  html: string,
+  options: Partial<ImageOptions> = {},
+): ImageInfo[] {
+  const { states, labels } = { ...DEFAULT_IMAGE_OPTIONS, ...options };
+  const { tables } = readTables(html);
   const images: ImageInfo[] = [];
 
-  let match;
-  while ((match = imgRegex.exec(htmlContent)) !== null) {
-    const imgTag = match[0];
+  const keywordFor = (label: string, column: number) =>
+    states.find((state) =>
+      stateLabel(state, labels).toLowerCase() === label.toLowerCase() ||
+      state.keyword.toLowerCase() === label.toLowerCase()
+    )?.keyword ?? states[column]?.keyword ?? label.toLowerCase();
 
-    // Extract alt attribute
-    const altMatch = imgTag.match(/alt="([^"]+)"/i);
-    const originalAlt = altMatch ? altMatch[1] : "";
+  tables.forEach(({ rows, title }, index) => {
+    const section = tables.length > 1 ? index + 1 : undefined;
+    for (const image of readTableImages(rows, keywordFor)) {
+      if (section !== undefined) {
+        image.section = section;
+        if (title) image.sectionTitle = title;
+      }
+      images.push(image);
+    }
+  });
 
-    // Extract src attribute
-    const srcMatch = imgTag.match(/src="([^"]+)"/i);
-    const src = srcMatch ? srcMatch[1] : "";
+  return images;
+}
+
+/**
+ * Reads the images of one table, in position order
+ */
+function readTableImages(
+  rows: TableCell[][],
+  keywordFor: (label: string, column: number) => string,
+): ImageInfo[] {
+  const images: ImageInfo[] = [];
+  let titles: string[] = [];
+  let category: string | undefined;
+  let stateColumns: string[] | undefined;
+
+  for (const row of rows) {
+    if (row.length === 0) continue;
+
+    if (row.every((cell) => cell.header)) {
+      if (row.length === 1 && row[0].colspan > 1) {
+        category = row[0].text;
+        stateColumns = undefined;
+        titles = [];
+      } else if (category !== undefined && stateColumns === undefined) {
+        stateColumns = row.map((cell, column) => keywordFor(cell.text, column));
+      } else {
+        category = undefined;
+        stateColumns = undefined;
+        titles = row.map((cell) => cell.text);
+      }
+      continue;
+    }
+
+    row.forEach((cell, column) => {
+      const src = cell.image?.src ||
+        (/^https?:\/\/\S+$/.test(cell.text) ? cell.text : "");
+      if (!src) return;
+
+      const timing = stateColumns?.[column] ?? "standalone";
+      const name = cell.image?.alt ||
+        (timing === "standalone" ? titles[column] : category) || "";
+      const mediaType = cell.image
+        ? detectMediaType(src, cell.image.video ? "video" : "img")
+        : detectMediaType(src, "url");
+      const image: ImageInfo = {
+        alt: name,
+        src,
+        category: name,
+        timing,
+        order: images.length + 1,
+        mediaType,
+      };
+      for (const dimension of ["width", "height"] as const) {
+        const value = cell.image?.[dimension];
+        if (value) image[dimension] = value;
+      }
+      images.push(image);
+    });
+    if (stateColumns === undefined) titles = [];
+  }
+
+  return images;
+}
+
+/**
+ * Blanks out fenced code blocks and HTML comments, keeping offsets intact
+ */
+function maskIgnoredRegions(content: string): string {
+  return content.replace(
+    /<!--[\s\S]*?(?:-->|$)|^[ \t]*(`{3,}|~{3,})[^\n]*\n[\s\S]*?(?:^[ \t]*\1[ \t]*$|(?![\s\S]))/gm,
+    (region) => region.replace(/[^\n]/g, " "),
+  );
+}
+
+/**
+ * Finds runs of adjacent media in a document: image and video tags,
+ * Markdown images, media URLs on their own line and previously generated
+ * tables, separated only by whitespace. A run must fill its lines, so images
+ * inline with text are left alone, as is anything in code blocks or comments.
+ * Returns the [start, end) offsets of each run.
+ */
+export function findMediaRuns(content: string): [number, number][] {
+  const masked = maskIgnoredRegions(content);
+  const spans: [number, number][] = [];
+
+  // Generated tables, with their <details> wrapper when present
+  const tags = tokenizeTags(masked);
+  for (let i = 0; i < tags.length; i++) {
+    const tag = tags[i];
+    if (tag.name === "h3" && !tag.closing) {
+      // Section heading of a table generated without <details>
+      const close = tags.findIndex((other, j) =>
+        j > i && other.closing && other.name === "h3"
+      );
+      const table = tags[close + 1];
+      if (
+        close !== -1 && table?.name === "table" && !table.closing &&
+        masked.slice(tags[close].end, table.start).trim() === ""
+      ) {
+        spans.push([tag.start, tags[close].end]);
+        i = close;
+      }
+      continue;
+    }
+    if (tag.closing || (tag.name !== "details" && tag.name !== "table")) {
+      continue;
+    }
+    const close = tags.findIndex((other, j) =>
+      j > i && other.closing && other.name === tag.name
+    );
+    if (close === -1) continue;
+    const inner = tags.slice(i + 1, close);
+    if (tag.name === "table" || inner.some((other) => other.name === "table")) {
+      spans.push([tag.start, tags[close].end]);
+      i = close;
+    }
+  }
+
+  // Generated Markdown tables, with their "### " section heading
+  spans.push(...readMarkdownTables(masked).ranges);
+
+  const media = [
+    ...collectHtmlMedia(masked, []),
+    ...collectMarkdownImages(masked, []),
+    ...collectBareMediaUrls(masked, []),
+  ];
+  for (const { index, end } of media) {
+    if (!spans.some(([start, stop]) => index >= start && index < stop)) {
+      spans.push([index, end]);
+    }
+  }
+  spans.sort((a, b) => a[0] - b[0]);
+
+  const runs: [number, number][] = [];
+  for (const [start, end] of spans) {
+    const last = runs[runs.length - 1];
+    if (
+      last && start >= last[1] && masked.slice(last[1], start).trim() === ""
+    ) {
+      last[1] = Math.max(last[1], end);
+    } else if (!last || start >= last[1]) {
+      runs.push([start, end]);
+    }
+  }
+
+  // Keep block-level runs only
+  return runs.filter(([start, end]) => {
+    const lineStart = masked.lastIndexOf("\n", start - 1) + 1;
+    const lineEnd = masked.indexOf("\n", end);
+    return masked.slice(lineStart, start).trim() === "" &&
+      masked.slice(end, lineEnd === -1 ? undefined : lineEnd).trim() === "";
+  });
+}
+
+export function parseImagesFromClipboard(
+  clipboardContent: string,
+  options: Partial<ImageOptions> = {},
+): ImageInfo[] {
+  const { states } = { ...DEFAULT_IMAGE_OPTIONS, ...options };
+  const trimmed = clipboardContent.trim();
+
+  // A previously generated table: keep its images first, then merge the
+  // media copied along with it
+  const { ranges } = readTables(trimmed);
+  if (ranges.length > 0) {
+    const tableImages = parseTable(trimmed, options);
+    let rest = trimmed;
+    for (const [start, end] of ranges) {
+      rest = rest.slice(0, start) + " ".repeat(end - start) + rest.slice(end);
+    }
+    const last = tableImages[tableImages.length - 1];
+    const extras = sortByOrder([
+      ...collectHtmlMedia(rest, states),
+      ...collectMarkdownImages(rest, states),
+      ...collectBareMediaUrls(rest, states),
+    ]).map((image) =>
+      image.order || image.section !== undefined ? image : {
+        ...image,
+        // Unnumbered extras go after the table, in its last section
+        order: (last?.order ?? 0) + 1,
+        ...(last?.section !== undefined && { section: last.section }),
+      }
+    );
+    return [...tableImages, ...extras].sort(compareImageOrder);
+  }
+
+  return sortByOrder([
+    ...collectHtmlMedia(trimmed, states),
+    ...collectMarkdownImages(trimmed, states),
+    ...collectBareMediaUrls(trimmed, states),
+  ]);
+}
+
+function collectHtmlMedia(
+  htmlContent: string,
+  states: ComparisonState[],
+): LocatedImage[] {
+  const tags = tokenizeTags(htmlContent);
+  const images: LocatedImage[] = [];
+
+  for (let i = 0; i < tags.length; i++) {
+    const tag = tags[i];
+    if (tag.closing || (tag.name !== "img" && tag.name !== "video")) {
+      continue;
+    }
+    const isVideo = tag.name === "video";
+    const { attributes } = tag;
+
+    // Extract alt attribute, or the title of videos
+    const originalAlt = attributes.alt || attributes.title ||
+      attributes["aria-label"] || "";
+
+    // Extract src attribute, or the first <source> of videos
+    let src = attributes.src ?? "";
+    let end = tag.end;
+    if (isVideo) {
+      for (i += 1; i < tags.length; i++) {
+        if (tags[i].name === "video") break;
+        if (tags[i].name === "source" && !src) {
+          src = tags[i].attributes.src ?? "";
+        }
+      }
+      if (tags[i]?.closing) {
+        end = tags[i].end;
+      } else {
+        // Let a following <video> start tag be read by the outer loop
+        i -= 1;
+      }
+    }
 
     if (originalAlt && src) {
       // Parse the filename to extract structured information
-      const parsed = parseFilename(originalAlt);
-
-      images.push({
-        alt: parsed.formattedAlt,
+      const image = toImageInfo(
+        originalAlt,
         src,
-        category: parsed.formattedAlt,
-        timing: parsed.timing,
-        order: parsed.order,
-      });
+        detectMediaType(src, isVideo ? "video" : "img"),
+        states,
+      );
+      for (const dimension of ["width", "height"] as const) {
+        const value = parseInt(attributes[dimension] ?? "");
+        if (value > 0) image[dimension] = value;
+      }
+      images.push({ index: tag.start, end, image });
     }
   }
 
+  return images;
+}
+
+/**
+ * Parses HTML content and extracts image and video information
+ */
+export function parseImages(
+  htmlContent: string,
+  options: Partial<ImageOptions> = {},
+): ImageInfo[] {
+  const { states } = { ...DEFAULT_IMAGE_OPTIONS, ...options };
   // Sort by the original order from filename prefixes
-  images.sort((a, b) => a.order - b.order);
+  return sortByOrder(collectHtmlMedia(htmlContent, states));
+}
 
-  return images;
+/**
+ * Builds the key used to pair images, ignoring case, separators,
+ * punctuation, accents and leftover file extensions
+ * Examples:
+ * - "Login screen " -> "login screen"
+ * - "login_Screen" -> "login screen"
+ * - "Log-in: screen.png" -> "log in screen"
+ */
+export function normalizeCategory(category: string): string {
+  return category
+    .normalize("NFD")
+    .replace(/[\u0300-\u036f]/g, "")
+    .toLowerCase()
+    .replace(/\.(?:png|jpe?g|gif|webp|avif|heic|mp4|mov|webm|m4v)$/, "")
+    .replace(/[^\p{L}\p{N}]+/gu, " ")
+    .trim();
 }
 
 /**
- * Groups images by category and creates table rows, preserving order
+ * Groups images by category and creates table rows, preserving order.
+ * Categories are compared with normalizeCategory(); with `pairByOrder`,
+ * images with different names but the same order number are paired too.
+ * Warns about groups missing a state and about duplicate states, where the
+ * last image wins.
  */
 export function groupImagesByCategory(
   images: ImageInfo[],
+  options: Partial<ImageOptions> = {},
 ): {
   standaloneImages: ImageInfo[];
-  pairedGroups: Map<
-    string,
-    { before?: ImageInfo; after?: ImageInfo; order: number }
-  >;
+  pairedGroups: Map<string, ImageGroup>;
+  warnings: string[];
 } {
+  const { states, labels, pairByOrder } = {
+    ...DEFAULT_IMAGE_OPTIONS,
+    ...options,
+  };
   const standaloneImages: ImageInfo[] = [];
-  const pairedGroups = new Map<
-    string,
-    { before?: ImageInfo; after?: ImageInfo; order: number }
-  >();
+  const pairedGroups = new Map<string, ImageGroup>();
+  // Category of each group, by normalized category
+  const categories = new Map<string, string>();
+  const warnings: string[] = [];
+
+  const findCategory = (image: ImageInfo): string | undefined => {
+    const byName = categories.get(normalizeCategory(image.category));
+    if (byName !== undefined || !pairByOrder || image.order === 0) {
+      return byName;
+    }
+    // Same section and order number, and the state is still free
+    return Array.from(pairedGroups.entries()).find(([, group]) =>
+      !(image.timing in group.images) &&
+      Object.values(group.images).some((other) =>
+        compareImageOrder(other, image) === 0
+      )
+    )?.[0];
+  };
 
   for (const image of images) {
     if (image.timing === "standalone") {
       standaloneImages.push(image);
     } else {
-      if (!pairedGroups.has(image.category)) {
-        pairedGroups.set(image.category, { order: image.order });
+      let category = findCategory(image);
+      if (category === undefined) {
+        category = image.category;
+        categories.set(normalizeCategory(category), category);
+        pairedGroups.set(category, { images: {}, order: image.order });
+        placeGroup(pairedGroups.get(category)!, image);
       }
 
-      const group = pairedGroups.get(image.category)!;
-      group[image.timing] = image;
-      // Use the earliest order number for the group
-      group.order = Math.min(group.order, image.order);
+      const group = pairedGroups.get(category)!;
+      if (group.images[image.timing]) {
+        warnings.push(
+          `"${category}" has several ${image.timing} images, only the last one is used`,
+        );
+      }
+      group.images[image.timing] = image;
+      // Use the earliest position for the group
+      if (compareImageOrder(image, group) < 0) {
+        placeGroup(group, image);
+      }
     }
   }
 
-  return { standaloneImages, pairedGroups };
+  for (const [category, group] of pairedGroups) {
+    const missing = states.filter((state) => !group.images[state.keyword]);
+    if (missing.length > 0) {
+      warnings.push(
+        `"${category}" has no ${
+          missing.map((state) => stateLabel(state, labels)).join(", ")
+        } image`,
+      );
+    }
+  }
+
+  return { standaloneImages, pairedGroups, warnings };
+}
+
+/**
+ * Moves a group to the position of one of its images
+ */
+function placeGroup(group: ImageGroup, image: ImageInfo): void {
+  group.order = image.order;
+  if (image.section === undefined) {
+    delete group.section;
+  } else {
+    group.section = image.section;
+  }
 }
 
 /**
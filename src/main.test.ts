@@ -1,12 +1,72 @@
-import { assertEquals } from "@std/assert";
+import { assertEquals, assertRejects, assertThrows } from "@std/assert";
 import {
+  appleScriptString,
+  BUILTIN_CONVERTERS,
+  ClipboardError,
+  compareImageOrder,
+  ConfigError,
+  ConversionError,
+  convert,
+  convertClipboard,
+  convertContent,
+  ConverterLoadError,
+  createAutoClipboard,
+  createConverterRegistry,
+  createLinuxNotifier,
+  createMemoryClipboard,
+  createQuietNotifier,
+  createRecordingNotifier,
+  decodeEntities,
+  DEFAULT_CONFIG,
+  detectClipboardBackends,
+  detectMediaType,
+  detectMode,
+  dialogCommand,
+  escapeHtml,
+  extractPart,
   formatCategoryTitle,
+  generateMarkdownTable,
+  generateTable,
+  GitError,
+  groupImagesByCategory,
+  isAbsolutePath,
+  isTitleList,
+  loadConfig,
+  loadConverters,
+  loadDescriptionTemplate,
+  matchProjectKey,
+  normalizeCategory,
+  parseBranchName,
+  parseChangelog,
+  parseCliArgs,
   parseFilename,
+  parseFormattedTitle,
   parseImages,
   parseImagesFromClipboard,
   parseImagesMarkdown,
   parsePRTitle,
+  parseTable,
+  parseTicketUrl,
+  parseTitle,
+  partNavigation,
+  pasteCommand,
+  prefixCommitMessage,
+  progressCommand,
+  renderChangelog,
+  renderDescription,
+  renderTable,
+  renderTemplate,
+  renderTitle,
+  sectionTitles,
+  setClipboardBackend,
+  setNotifier,
+  titleFromGit,
+  toBranchName,
+  tokenizeTags,
+  UsageError,
+  validateConfig,
 } from "./mod.ts";
+import type { Converter, ConvertOptions, NotifierCommand } from "./mod.ts";
 
 Deno.test("parsePRTitle - basic ticket with feature name", () => {
   const result = parsePRTitle("Mb 80 group by parking lot");
@@ -210,3 +270,1757 @@ Deno.test("parseImagesFromClipboard supports both HTML and Markdown", () => {
   assertEquals(mdImages.length, 1);
   assertEquals(htmlImages[0], mdImages[0]);
 });
+
+Deno.test("detectMediaType - images, GIFs and videos", () => {
+  assertEquals(detectMediaType("https://example.com/a.png"), "image");
+  assertEquals(detectMediaType("https://example.com/a.GIF?raw=1"), "gif");
+  assertEquals(detectMediaType("https://example.com/a.mov"), "video");
+  assertEquals(detectMediaType("https://example.com/a", "video"), "video");
+  const attachment = "https://github.com/user-attachments/assets/0a1b-2c3d";
+  assertEquals(detectMediaType(attachment), "image");
+  assertEquals(detectMediaType(attachment, "url"), "video");
+});
+
+Deno.test("parseImagesFromClipboard - videos, bare URLs and GIFs", () => {
+  const html = `<img alt="1. Home" src="home.png" />
+1. Login before
+https://github.com/user-attachments/assets/aaa-111
+
+1. Login after: https://github.com/user-attachments/assets/bbb-222
+<video title="2. Menu" src="menu.mp4"></video>
+<video alt="3. Spinner"><source src="spinner.webm" type="video/webm"></video>
+<img alt="4. Loader" src="loader.gif" />`;
+  const images = parseImagesFromClipboard(html);
+  assertEquals(
+    images.map(({ alt, timing, mediaType }) => [alt, timing, mediaType]),
+    [
+      ["Home", "standalone", "image"],
+      ["Login", "before", "video"],
+      ["Login", "after", "video"],
+      ["Menu", "standalone", "video"],
+      ["Spinner", "standalone", "video"],
+      ["Loader", "standalone", "gif"],
+    ],
+  );
+
+  const unnamed = parseImagesFromClipboard(
+    "https://github.com/user-attachments/assets/ccc-333\nhttps://example.com/demo_after.mp4",
+  );
+  assertEquals(unnamed.map(({ alt, timing }) => [alt, timing]), [
+    ["Video 1", "standalone"],
+    ["demo", "after"],
+  ]);
+
+  // Malformed escapes keep the raw file name instead of throwing
+  assertEquals(
+    parseImagesFromClipboard("https://example.com/done%_x.mp4")
+      .map(({ alt }) => alt),
+    ["done% x.mp4"],
+  );
+  const result = convert("Mb 80 fix\nhttps://example.com/a%zz.gif");
+  assertEquals(result.ok, true);
+});
+
+Deno.test("convertContent - document mode keeps prose above a video", () => {
+  const video = "https://github.com/user-attachments/assets/abc-123";
+  const prose = "## Demo\nThe spinner no longer freezes, see below.\n";
+  const document = `${prose}${video}`;
+  const { output } = convertContent(document, "document");
+  assertEquals(output.startsWith(prose), true);
+  assertEquals(output.includes("<th>Video 1</th>"), true);
+  assertEquals(output.includes("spinner no longer freezes</th>"), false);
+
+  // A numbered line names the video below it and joins its table
+  const named = `## Demo\n1. Spinner\n${video}`;
+  const table = convertContent(named, "document").output;
+  assertEquals(table.startsWith("## Demo\n<details>"), true);
+  assertEquals(table.includes("<th>Spinner</th>"), true);
+
+  // Named videos pair up in one table, as in table mode
+  const pair = [
+    "## Demo",
+    "1. Login before",
+    "https://github.com/user-attachments/assets/a1",
+    "2. Login after",
+    "https://github.com/user-attachments/assets/a2",
+  ].join("\n");
+  const paired = convertContent(pair, "document");
+  assertEquals(paired.warnings, []);
+  assertEquals(paired.output.startsWith("## Demo\n<details>"), true);
+  assertEquals(paired.output.match(/<table>/g)?.length, 1);
+  assertEquals(paired.output.includes("Login after"), false);
+  assertEquals(
+    paired.output,
+    `## Demo\n${convertContent(pair.slice(8), "table").output}`,
+  );
+});
+
+Deno.test("generateTable - videos play inline", () => {
+  const images = parseImagesFromClipboard(`
+1. Login before
+https://github.com/user-attachments/assets/aaa-111
+1. Login after
+https://github.com/user-attachments/assets/bbb-222`);
+  const { standaloneImages, pairedGroups } = groupImagesByCategory(images);
+  const html = generateTable(standaloneImages, pairedGroups);
+  assertEquals(
+    html.includes(
+      "    <td>\n\nhttps://github.com/user-attachments/assets/aaa-111\n\n</td>\n",
+    ),
+    true,
+  );
+  assertEquals(html.includes("<img"), false);
+  assertEquals(
+    generateMarkdownTable(standaloneImages, pairedGroups).endsWith(
+      "| [▶ Login](https://github.com/user-attachments/assets/aaa-111) | " +
+        "[▶ Login](https://github.com/user-attachments/assets/bbb-222) |",
+    ),
+    true,
+  );
+  assertEquals(
+    convertContent("https://github.com/user-attachments/assets/aaa-111")
+      .output.startsWith("<details>"),
+    true,
+  );
+});
+
+Deno.test("tokenizeTags - quoting styles and edge cases", () => {
+  const tags = tokenizeTags(
+    `<IMG alt='1. Login > Home' SRC=login.png width=300 height="600" hidden>` +
+      `<!-- <img alt="commented" src="x.png"> -->` +
+      `text < 3 <img alt="Tom &amp; Jerry &#x1F600;" src="a.png?w=1&amp;h=2"/>` +
+      `<img alt="first" alt="second" src = "b.png" ></video>`,
+  );
+  assertEquals(
+    tags.map(({ name, closing, attributes }) => [name, closing, attributes]),
+    [
+      ["img", false, {
+        alt: "1. Login > Home",
+        src: "login.png",
+        width: "300",
+        height: "600",
+        hidden: "",
+      }],
+      ["img", false, { alt: "Tom & Jerry 😀", src: "a.png?w=1&h=2" }],
+      ["img", false, { alt: "first", src: "b.png" }],
+      ["video", true, {}],
+    ],
+  );
+
+  // Unterminated tags are skipped rather than swallowing the next one
+  assertEquals(
+    tokenizeTags(`<img alt="broken <img alt=ok src=ok.png>`).length,
+    1,
+  );
+  assertEquals(tokenizeTags(`<img alt="unclosed src=x.png>`), []);
+});
+
+Deno.test("decodeEntities and escapeHtml", () => {
+  assertEquals(decodeEntities("&lt;b&gt; &quot;hi&quot; &#39;"), `<b> "hi" '`);
+  assertEquals(decodeEntities("&unknown; &#0; &"), "&unknown; &#0; &");
+  assertEquals(
+    escapeHtml(`He said "hi" <b> & 'bye'`),
+    "He said &quot;hi&quot; &lt;b&gt; &amp; &#39;bye&#39;",
+  );
+});
+
+Deno.test("parseImages - tolerant attributes and escaped output", () => {
+  const images = parseImages(
+    `<img width=1170 height='2532' alt='1. He said "hi" <b>' src=https://example.com/a.png?x=1&amp;y=2>`,
+  );
+  assertEquals(images.length, 1);
+  assertEquals(images[0].alt, 'He said "hi" <b>');
+  assertEquals(images[0].src, "https://example.com/a.png?x=1&y=2");
+  assertEquals([images[0].width, images[0].height], [1170, 2532]);
+
+  const { standaloneImages, pairedGroups } = groupImagesByCategory(images);
+  const html = generateTable(standaloneImages, pairedGroups);
+  assertEquals(
+    html.includes("<th>He said &quot;hi&quot; &lt;b&gt;</th>"),
+    true,
+  );
+  assertEquals(
+    html.includes(
+      '<img src="https://example.com/a.png?x=1&amp;y=2" alt="He said &quot;hi&quot; &lt;b&gt;" width="1170" height="2532">',
+    ),
+    true,
+  );
+  // The output parses back to the same image
+  assertEquals(parseImages(html)[0].alt, 'He said "hi" <b>');
+});
+
+Deno.test("parseTable - rebuilds images from a generated table", () => {
+  const input = `
+    <img alt="1. Home" src="home.png" />
+    <img alt="2. Login before" src="login-old.png" />
+    <img alt="2. Login after" src="login-new.png" />
+    <img alt="3. feature54" src="f.png" />
+    <img alt="4. Menu before" src="menu.png" />
+    1. Intro
+    https://github.com/user-attachments/assets/aaa-111
+  `;
+  const first = convertContent(input, "table").output;
+
+  assertEquals(
+    parseTable(first).map(({ alt, timing, order, mediaType }) => [
+      alt,
+      timing,
+      order,
+      mediaType,
+    ]),
+    [
+      ["Home", "standalone", 1, "image"],
+      ["Intro", "standalone", 2, "video"],
+      ["Login", "before", 3, "image"],
+      ["Login", "after", 4, "image"],
+      ["feature54", "standalone", 5, "image"],
+      ["Menu", "before", 6, "image"],
+    ],
+  );
+
+  // Running the tool on its own output gives the same result
+  assertEquals(convertContent(first).output, first);
+  assertEquals(convertContent(convertContent(first).output).output, first);
+});
+
+Deno.test("parseTable - rebuilds images from a generated Markdown table", () => {
+  const input = `
+    ![1. Home](home.png)
+    ![2. Login before](login-old.png)
+    ![2. Login after](login-new.png)
+    3. Intro
+    https://github.com/user-attachments/assets/aaa-111
+  `;
+  const first = convertContent(input, "table").output;
+  assertEquals(first.startsWith("|"), true);
+
+  assertEquals(
+    parseTable(first).map(({ alt, timing, mediaType }) => [
+      alt,
+      timing,
+      mediaType,
+    ]),
+    [
+      ["Home", "standalone", "image"],
+      ["Login", "before", "image"],
+      ["Login", "after", "image"],
+      ["Intro", "standalone", "video"],
+    ],
+  );
+
+  // Running the tool on its own output gives the same result
+  assertEquals(convertContent(first).output, first);
+});
+
+Deno.test("parseImagesFromClipboard - merges images copied with a table", () => {
+  const table = convertContent(`
+    <img alt="1. Home" src="home.png" />
+    <img alt="2. Login before" src="login-old.png" />
+  `).output;
+
+  const images = parseImagesFromClipboard(
+    `${table}\n<img alt="Login after" src="login-new.png" />` +
+      `\n<img alt="1. Splash" src="splash.png" />`,
+  );
+  assertEquals(
+    images.map(({ alt, timing }) => [alt, timing]),
+    [
+      ["Home", "standalone"],
+      ["Splash", "standalone"],
+      ["Login", "before"],
+      ["Login", "after"],
+    ],
+  );
+
+  const { standaloneImages, pairedGroups } = groupImagesByCategory(images);
+  assertEquals(standaloneImages.map(({ alt }) => alt), ["Home", "Splash"]);
+  assertEquals(Object.keys(pairedGroups.get("Login")!.images), [
+    "before",
+    "after",
+  ]);
+});
+
+Deno.test("convertContent - document mode converts image blocks in place", () => {
+  const before =
+    "## Summary\r\nFixes the *login* flow ![badge](b.svg)\r\n\r\n" +
+    "<!-- ![template](x.png) -->\n" +
+    "## Screenshots\n";
+  const block = `<img alt="1. Login before" src="a.png" />
+<img alt="1. Login after" src="b.png" />`;
+  const between =
+    '\n\n- [ ] Tested on iOS\n```html\n<img alt="code" src="c.png">\n```\n';
+  const markdownBlock = "![2. Menu](m.png)\n![3. Footer](f.png)";
+  const after = "\n\nThanks!  \n";
+  const document = before + block + between + markdownBlock + after;
+
+  assertEquals(detectMode(document), "document");
+  const { output } = convertContent(document);
+  assertEquals(
+    output,
+    before + convertContent(block).output + between +
+      convertContent(markdownBlock).output + after,
+  );
+
+  // Already converted blocks are kept as they are
+  assertEquals(convertContent(output).output, output);
+
+  assertEquals(detectMode(block), "table");
+  assertEquals(
+    detectMode(
+      "1. Login before\nhttps://github.com/user-attachments/assets/a1",
+    ),
+    "table",
+  );
+  assertEquals(detectMode("Mb 80 login screen"), "title");
+  assertThrows(
+    () => convertContent("Some text ![inline](a.png) here", "document"),
+    Error,
+    "No image blocks found",
+  );
+});
+
+Deno.test("groupImagesByCategory - fuzzy pairing and diagnostics", () => {
+  assertEquals(normalizeCategory("  Login screen "), "login screen");
+  assertEquals(normalizeCategory("login_Screen.png"), "login screen");
+  assertEquals(normalizeCategory("Écran d'accueil"), "ecran d accueil");
+
+  const images = parseImages(`
+    <img alt="1. Login screen before" src="a.png" />
+    <img alt="2. login_Screen after" src="b.png" />
+    <img alt="3. Menu before" src="c.png" />
+    <img alt="3. Menu before" src="d.png" />
+    <img alt="4. Checkout before" src="e.png" />
+    <img alt="4. Payment after" src="f.png" />
+  `);
+  const { pairedGroups, warnings } = groupImagesByCategory(images);
+  assertEquals(Array.from(pairedGroups.keys()), [
+    "Login screen",
+    "Menu",
+    "Checkout",
+    "Payment",
+  ]);
+  assertEquals(pairedGroups.get("Login screen")!.images.after.src, "b.png");
+  assertEquals(pairedGroups.get("Menu")!.images.before.src, "d.png");
+  assertEquals(warnings, [
+    '"Menu" has several before images, only the last one is used',
+    '"Menu" has no After image',
+    '"Checkout" has no After image',
+    '"Payment" has no Before image',
+  ]);
+
+  const byOrder = groupImagesByCategory(images, { pairByOrder: true });
+  assertEquals(Array.from(byOrder.pairedGroups.keys()), [
+    "Login screen",
+    "Menu",
+    "Checkout",
+  ]);
+  assertEquals(byOrder.pairedGroups.get("Checkout")!.images.after.src, "f.png");
+
+  assertEquals(
+    convertContent(`<img alt="Solo before" src="a.png" />`).warnings,
+    ['"Solo" has no After image'],
+  );
+});
+
+Deno.test("parseFilename - section and item prefixes", () => {
+  assertEquals(parseFilename("1.2 Cart before"), {
+    order: 2,
+    section: 1,
+    timing: "before",
+    formattedAlt: "Cart",
+  });
+  assertEquals(parseFilename("2-3_Payment"), {
+    order: 3,
+    section: 2,
+    timing: "standalone",
+    formattedAlt: "Payment",
+  });
+  // Not a section prefix
+  assertEquals(parseFilename("1.5x zoom").section, undefined);
+  assertEquals(parseFilename("12. Home").section, undefined);
+});
+
+Deno.test("sections - sorting and titles", () => {
+  const images = parseImages(`
+    <img alt="2.1 Profile avatar" src="p.png" />
+    <img alt="1.2 Cart before" src="a.png" />
+    <img alt="1 Checkout" src="c.png" />
+    <img alt="2.2 Profile name" src="n.png" />
+    <img alt="3.1 Settings" src="s.png" />
+    <img alt="3.2 Logout" src="l.png" />
+  `);
+  assertEquals(
+    images.map(({ alt, section, order }) => [alt, section, order]),
+    [
+      ["Checkout", 1, 0],
+      ["Cart", 1, 2],
+      ["Profile avatar", 2, 1],
+      ["Profile name", 2, 2],
+      ["Settings", 3, 1],
+      ["Logout", 3, 2],
+    ],
+  );
+  assertEquals(compareImageOrder(images[1], images[2]) < 0, true);
+  // From the 0 item, the shared leading words, then the section number
+  assertEquals(
+    sectionTitles(images),
+    new Map([[1, "Checkout"], [2, "Profile"], [3, "Section 3"]]),
+  );
+});
+
+Deno.test("generateTable - interleaves rows and titles sections", () => {
+  const interleaved = convertContent(
+    `
+    <img alt="1. Home" src="home.png" />
+    <img alt="2. Login before" src="old.png" />
+    <img alt="2. Login after" src="new.png" />
+    <img alt="3. Menu" src="menu.png" />
+  `,
+    "table",
+  ).output;
+  const [home, login, menu] = ["Home", "Login", "Menu"].map((name) =>
+    interleaved.indexOf(`>${name}<`)
+  );
+  assertEquals(home < login && login < menu, true);
+
+  const input = `
+    <img alt="1.0 Checkout" src="c.png" />
+    <img alt="1.1 Cart before" src="a.png" />
+    <img alt="1.1 Cart after" src="b.png" />
+    <img alt="2-1 Profile" src="p.png" />
+  `;
+  const first = convertContent(input, "table").output;
+  assertEquals(first.match(/<summary>[^<]*/g), [
+    "<summary>Checkout",
+    "<summary>Profile",
+  ]);
+  assertEquals(first.match(/<table>/g)?.length, 2);
+  assertEquals(
+    parseTable(first).map((
+      { alt, section, sectionTitle },
+    ) => [alt, section, sectionTitle]),
+    [
+      ["Checkout", 1, "Checkout"],
+      ["Cart", 1, "Checkout"],
+      ["Cart", 1, "Checkout"],
+      ["Profile", 2, "Profile"],
+    ],
+  );
+  // Sections survive running the tool on its own output
+  assertEquals(convertContent(first).output, first);
+  const document = `# Changes\n\n${first}\n\nDone`;
+  assertEquals(convertContent(document, "document").output, document);
+
+  const groups = groupImagesByCategory(parseImages(input));
+  const headings = generateTable(
+    groups.standaloneImages,
+    groups.pairedGroups,
+    { details: "none" },
+  );
+  assertEquals(headings.match(/<h3>[^<]*/g), ["<h3>Checkout", "<h3>Profile"]);
+  const markdown = generateMarkdownTable(
+    groups.standaloneImages,
+    groups.pairedGroups,
+  );
+  assertEquals(markdown.startsWith("### Checkout\n\n| Checkout |"), true);
+  assertEquals(markdown.includes("\n\n### Profile\n\n| Profile |"), true);
+});
+
+Deno.test("createMemoryClipboard round-trips written content", async () => {
+  const clipboard = createMemoryClipboard("initial");
+  assertEquals(await clipboard.read(), "initial");
+
+  await clipboard.write('<img alt="1. A" src="a.png">');
+  assertEquals(await clipboard.read(), '<img alt="1. A" src="a.png">');
+});
+
+Deno.test("detectClipboardBackends picks tools from the environment", () => {
+  const env = (vars: Record<string, string>) => (key: string) => vars[key];
+
+  assertEquals(detectClipboardBackends("darwin", env({})), ["macos"]);
+  assertEquals(
+    detectClipboardBackends("linux", env({ WAYLAND_DISPLAY: "wayland-0" })),
+    ["wayland", "xclip", "xsel"],
+  );
+  assertEquals(
+    detectClipboardBackends("linux", env({ DISPLAY: ":0" })),
+    ["xclip", "xsel", "wayland"],
+  );
+});
+
+Deno.test("createAutoClipboard uses the first working backend", async () => {
+  const clipboard = createAutoClipboard([
+    createMemoryClipboard("first"),
+    createMemoryClipboard("second"),
+  ]);
+  assertEquals(await clipboard.read(), "first");
+});
+
+Deno.test("createAutoClipboard reports an error without candidates", async () => {
+  await assertRejects(
+    () => createAutoClipboard([]).read(),
+    ClipboardError,
+    "No clipboard tool available",
+  );
+});
+
+Deno.test("notifier commands escape messages for each tool", () => {
+  const message = 'Say "hi" to C:\\temp\n<b>&</b>';
+  assertEquals(
+    appleScriptString(message),
+    '"Say \\"hi\\" to C:\\\\temp" & linefeed & "<b>&</b>"',
+  );
+  assertEquals(
+    dialogCommand("zenity", message, "Error", "error").args,
+    [
+      "--error",
+      "--title=Error",
+      "--text=Say &quot;hi&quot; to C:\\\\temp\n&lt;b&gt;&amp;&lt;/b&gt;",
+    ],
+  );
+  assertEquals(
+    dialogCommand("kdialog", message, "Check", "warning").args.slice(2),
+    [
+      "--sorry",
+      "<qt>Say &quot;hi&quot; to C:\\temp<br>&lt;b&gt;&amp;&lt;/b&gt;</qt>",
+    ],
+  );
+  assertEquals(
+    progressCommand("notify-send", "-v & more").args.slice(-3),
+    ["--", "PR Parser", "-v &amp; more"],
+  );
+  assertEquals(pasteCommand("wtype").command, "wtype");
+});
+
+Deno.test("createLinuxNotifier falls back through the installed tools", async () => {
+  const ran: string[] = [];
+  const installed = (tools: string[]) => (command: NotifierCommand) => {
+    ran.push(command.command);
+    return Promise.resolve(tools.includes(command.command));
+  };
+
+  const kde = createLinuxNotifier(installed(["kdialog", "xdotool"]), () => "");
+  await kde.dialog("Done", "Success", "info");
+  await kde.paste();
+  assertEquals(ran, ["zenity", "kdialog", "xdotool"]);
+
+  ran.length = 0;
+  const wayland = createLinuxNotifier(
+    installed(["wtype"]),
+    (key) => key === "WAYLAND_DISPLAY" ? "wayland-0" : undefined,
+  );
+  await wayland.paste();
+  assertEquals(ran, ["wtype"]);
+});
+
+Deno.test("convertClipboard reports through the notifier", async () => {
+  const clipboard = createMemoryClipboard("Mb 80 group by lot");
+  const notifier = createRecordingNotifier();
+  setClipboardBackend(clipboard);
+  setNotifier(notifier);
+  await convertClipboard(DEFAULT_CONFIG);
+
+  assertEquals(await clipboard.read(), "[MB-80] Group by lot");
+  assertEquals(notifier.events.at(-1), {
+    kind: "dialog",
+    message: "Successfully formatted PR title!\n\nResult: [MB-80] Group by lot",
+    title: "Success",
+    type: "info",
+  });
+  assertEquals(
+    notifier.events.some(({ kind }) => kind === "progress"),
+    true,
+  );
+
+  // Quiet mode keeps the dialogs only
+  const quiet = createRecordingNotifier();
+  await clipboard.write("Mb 80 group by lot");
+  setNotifier(createQuietNotifier(quiet));
+  await convertClipboard(DEFAULT_CONFIG);
+  assertEquals(quiet.events.map(({ kind }) => kind), ["dialog"]);
+});
+
+Deno.test("parseCliArgs reads subcommands, text and options", () => {
+  const title = parseCliArgs(["title", "Mb", "80", "feature", "--stdout"]);
+  assertEquals(title.command, "title");
+  assertEquals(title.explicitCommand, true);
+  assertEquals(title.text, "Mb 80 feature");
+  assertEquals(title.stdout, true);
+
+  const table = parseCliArgs(["table", "-i", "imgs.html", "--output=out.html"]);
+  assertEquals(table.command, "table");
+  assertEquals(table.input, "imgs.html");
+  assertEquals(table.output, "out.html");
+
+  const legacy = parseCliArgs(["--app-mode"]);
+  assertEquals(legacy.command, "auto");
+  assertEquals(legacy.explicitCommand, false);
+  assertEquals(legacy.text, undefined);
+});
+
+Deno.test("parseCliArgs rejects invalid combinations", () => {
+  assertThrows(() => parseCliArgs(["--bogus"]), UsageError, "Unknown option");
+  assertThrows(() => parseCliArgs(["--input"]), UsageError, "Missing value");
+  assertThrows(
+    () => parseCliArgs(["title", "Mb 80", "--input", "file.txt"]),
+    UsageError,
+  );
+  assertThrows(
+    () => parseCliArgs(["--clipboard", "clippy"]),
+    UsageError,
+    "Unknown clipboard backend",
+  );
+  assertThrows(
+    () => parseCliArgs(["table", "--json", "-o", "table.html"]),
+    UsageError,
+  );
+  assertThrows(() => parseCliArgs(["branch", "x", "--json"]), UsageError);
+});
+
+Deno.test("convertContent converts titles and tables", () => {
+  assertEquals(
+    convertContent("Mb 80 group by parking lot").output,
+    "[MB-80] Group by parking lot",
+  );
+  assertEquals(
+    convertContent('<img alt="1. Feature" src="https://example.com/1.jpg">')
+      .output.startsWith("<details>"),
+    true,
+  );
+  assertEquals(
+    convertContent("![1. Feature](https://example.com/1.jpg)", "auto")
+      .output.startsWith("| Feature |"),
+    true,
+  );
+  assertThrows(() => convertContent("   "), Error, "empty");
+  assertThrows(() => convertContent("no images here", "table"), Error);
+});
+
+Deno.test("convert returns typed results and error codes", () => {
+  assertEquals(convert("Mb 80 group by parking lot"), {
+    ok: true,
+    mode: "title",
+    output: "[MB-80] Group by parking lot",
+    counts: { images: 0, categories: 0, tables: 0 },
+    warnings: [],
+  });
+
+  const table = convert(
+    '<img alt="1. Login before" src="a.png"><img alt="2. Home" src="b.png">',
+  );
+  assertEquals(table.ok && [table.mode, table.counts, table.warnings], [
+    "table",
+    { images: 2, categories: 2, tables: 1 },
+    ['"Login" has no After image'],
+  ]);
+
+  const document = convert(
+    "Intro\n\n![1. A](a.png)\n\nMiddle\n\n![1. B](b.png)\n![2. C](c.png)",
+  );
+  assertEquals(
+    document.ok && [document.mode, document.counts],
+    ["document", { images: 3, categories: 3, tables: 2 }],
+  );
+
+  const code = (input: string, options: Partial<ConvertOptions> = {}) => {
+    const result = convert(input, options);
+    return result.ok ? undefined : result.error.code;
+  };
+  assertEquals(code(" \n "), "EMPTY_INPUT");
+  assertEquals(code("no images here", { mode: "table" }), "NO_IMAGES");
+  assertEquals(code("no images here", { mode: "document" }), "NO_IMAGES");
+  // A template rendering nothing for a ticket-only title
+  const config = {
+    ...DEFAULT_CONFIG,
+    title: { ...DEFAULT_CONFIG.title, template: "{feature}" },
+  };
+  assertEquals(code("MB-80", { config }), "UNPARSEABLE_TITLE");
+
+  const error = assertThrows(
+    () => convertContent("", "title"),
+    ConversionError,
+  );
+  assertEquals(error.code, "EMPTY_INPUT");
+});
+
+Deno.test("converter registry - detection, forced modes and custom converters", async () => {
+  const shout: Converter = {
+    name: "shout",
+    detect: (input) => input.startsWith("!") ? 0.95 : 0,
+    transform: (input) => {
+      const text = input.replace(/^!/, "");
+      if (!text) {
+        throw new ConversionError("Nothing to shout", "UNPARSEABLE_TITLE");
+      }
+      return { output: text.toUpperCase(), counts: { images: 1 } };
+    },
+  };
+  const registry = createConverterRegistry([...BUILTIN_CONVERTERS, shout]);
+  assertEquals(registry.list().map(({ name }) => name), [
+    "title",
+    "table",
+    "document",
+    "changelog",
+    "description",
+    "shout",
+  ]);
+
+  // The most confident converter wins
+  assertEquals(registry.detect("!hey", DEFAULT_CONFIG)?.name, "shout");
+  assertEquals(registry.detect("Mb 80 hey", DEFAULT_CONFIG)?.name, "title");
+  assertEquals(
+    registry.detect("![1. A](a.png)", DEFAULT_CONFIG)?.name,
+    "table",
+  );
+  assertEquals(convert("!hey", { registry }), {
+    ok: true,
+    mode: "shout",
+    output: "HEY",
+    counts: { images: 1, categories: 0, tables: 0 },
+    warnings: [],
+  });
+
+  // Forcing a mode skips detection
+  const forced = convert("Mb 80 hey", { mode: "shout", registry });
+  assertEquals(forced.ok && forced.output, "MB 80 HEY");
+  const failed = convert("!", { mode: "shout", registry });
+  assertEquals(!failed.ok && failed.error.code, "UNPARSEABLE_TITLE");
+  const unknown = convert("hey", { mode: "nope", registry });
+  assertEquals(!unknown.ok && unknown.error.code, "UNKNOWN_MODE");
+
+  const [loaded] = await loadConverters([
+    "data:application/typescript," +
+    encodeURIComponent(
+      'export default { name: "echo", detect: () => 0, transform: (input: string) => ({ output: input }) };',
+    ),
+  ]);
+  assertEquals(loaded.name, "echo");
+  await assertRejects(
+    () => loadConverters(["data:application/javascript,export default 42"]),
+    ConverterLoadError,
+    "expected a default export",
+  );
+});
+
+Deno.test("parseChangelog - merges parts and reads raw and formatted titles", () => {
+  const { entries, warnings } = parseChangelog(
+    [
+      "- [MB-80] [PART-1] Group by parking lot (#41)",
+      "- [MB-80] [PART-2] Group by lot (#42)",
+      "* Saas 12 export part 2/3",
+      "feat(MB-82, MB-83): add dark mode",
+      "",
+      "[no-ticket] Fix typo",
+      "[MB-80] [PART-2] Group by lot",
+    ].join("\n"),
+    { projectKeys: ["MB", "SAAS"] },
+  );
+
+  assertEquals(entries, [
+    {
+      tickets: [{ key: "MB", number: "80" }],
+      feature: "Group by parking lot",
+      parts: ["1", "2"],
+      pullRequests: ["41", "42"],
+    },
+    {
+      tickets: [{ key: "SAAS", number: "12" }],
+      feature: "export",
+      parts: ["2"],
+      partTotal: "3",
+      pullRequests: [],
+    },
+    {
+      tickets: [{ key: "MB", number: "82" }, { key: "MB", number: "83" }],
+      feature: "add dark mode",
+      parts: [],
+      pullRequests: [],
+    },
+    { tickets: [], feature: "Fix typo", parts: [], pullRequests: [] },
+  ]);
+  assertEquals(warnings, [
+    "Line 7: part 2 of MB-80 is listed twice",
+    "SAAS-12: parts 1, 3 of 3 are missing",
+  ]);
+});
+
+Deno.test("parseChangelog - plain titles without a ticket", () => {
+  const { entries } = parseChangelog(
+    "update deps\nrefactor api client part 2\nbump eslint\nFix 2 bugs\n" +
+      "[MB-80] Fix login",
+  );
+  assertEquals(
+    renderChangelog(entries, { title: "" }),
+    "## MB\n\n- MB-80 Fix login\n\n## Other changes\n\n" +
+      "- Update deps\n- Refactor api client (part 2)\n- Bump eslint\n" +
+      "- Fix 2 bugs",
+  );
+
+  // Without project keys, raw titles only have a ticket once formatted
+  assertEquals(
+    parseChangelog("Mb 80 fix login").entries[0].tickets,
+    [],
+  );
+
+  // With project keys, unknown keys are not tickets either
+  const known = parseChangelog("Saas 12 export\nMb 81 fix", {
+    projectKeys: ["MB"],
+    maxTypoDistance: 0,
+  });
+  assertEquals(
+    known.entries.map(({ tickets, feature }) => [tickets.length, feature]),
+    [[0, "Saas 12 export"], [1, "fix"]],
+  );
+});
+
+Deno.test("renderChangelog - groups by project key with ticket links", () => {
+  const { entries } = parseChangelog(
+    "[SAAS-12] Export\n#7 close button\nMB-81: Fix login (part 2/2)\n" +
+      "[no-ticket] Fix typo\n[MB-81] [PART-1/2] Login",
+  );
+
+  assertEquals(
+    renderChangelog(entries, {
+      ticketUrl: "https://jira.acme.com/browse/{ticket}",
+    }),
+    [
+      "# Changelog",
+      "## MB\n\n- [MB-81](https://jira.acme.com/browse/MB-81) Login (2 parts)",
+      "## SAAS\n\n- [SAAS-12](https://jira.acme.com/browse/SAAS-12) Export",
+      "## Issues\n\n- #7 Close button",
+      "## Other changes\n\n- Fix typo",
+    ].join("\n\n"),
+  );
+  assertEquals(
+    renderChangelog(entries.slice(0, 1), { title: "" }),
+    "## SAAS\n\n- SAAS-12 Export",
+  );
+
+  const result = convert("[MB-80] Fix\n[no-ticket] Typo", {
+    config: {
+      ...DEFAULT_CONFIG,
+      changelog: { ...DEFAULT_CONFIG.changelog, noTicketTitle: "Misc" },
+    },
+  });
+  assertEquals(result.mode, "changelog");
+  assertEquals(
+    result.ok && result.output,
+    "# Changelog\n\n## MB\n\n- MB-80 Fix\n\n## Misc\n\n- Typo",
+  );
+  // Raw text over several lines stays a PR title
+  assertEquals(
+    detectMode("Mb 80 fix login\nAlso handles the retry case"),
+    "title",
+  );
+  assertEquals(isTitleList("- [MB-80] Fix (#41)\n- feat(MB-82): add x"), true);
+  assertEquals(isTitleList("[MB-80] Fix\nsome notes\nmore notes"), false);
+  assertEquals(isTitleList("[MB-80] Fix"), false);
+  assertThrows(
+    () => validateConfig({ changelog: { ticketUrl: "https://x/{id}" } }, "a"),
+    ConfigError,
+    "changelog.ticketUrl: unknown placeholder {id}",
+  );
+});
+
+Deno.test("parseFormattedTitle - reads titles rendered by each preset", () => {
+  assertEquals(parseFormattedTitle("[MB-80] [PART-2/3] Group by lot"), {
+    tickets: [{ key: "MB", number: "80" }],
+    noTicket: false,
+    part: "2",
+    partTotal: "3",
+    feature: "Group by lot",
+    warnings: [],
+  });
+  assertEquals(
+    parseFormattedTitle("MB-80: Group by lot (part 1)")?.part,
+    "1",
+  );
+  assertEquals(parseFormattedTitle("feat: fix login")?.noTicket, true);
+  assertEquals(parseFormattedTitle("Mb 80 group by lot"), undefined);
+});
+
+Deno.test("renderDescription - fills the template from the parsed title", () => {
+  const parsed = parseTitle("Mb 80 group by lot part 2/3");
+  assertEquals(
+    partNavigation(parsed),
+    [
+      "Part 2 of 3:",
+      "1. [MB-80] [PART-1/3] Group by lot",
+      "2. **[MB-80] [PART-2/3] Group by lot** (this PR)",
+      "3. [MB-80] [PART-3/3] Group by lot",
+    ].join("\n"),
+  );
+  assertEquals(partNavigation(parseTitle("Mb 80 group by lot")), "");
+
+  const template =
+    "{ticketLink:Ticket: %}\n\n## Summary\n\n{summary}\n\n{partNavigation}\n\n## Screenshots\n\n{screenshots}";
+  assertEquals(
+    renderDescription(
+      parseTitle("Mb 81 fix login"),
+      { summary: "Retries once.\n\n\n\nKeeps the session." },
+      { template, ticketUrl: "https://jira.acme.com/browse/{ticket}" },
+    ),
+    "Ticket: [MB-81](https://jira.acme.com/browse/MB-81)\n\n## Summary\n\n" +
+      "Retries once.\n\n\n\nKeeps the session.\n\n## Screenshots",
+  );
+  assertEquals(
+    renderDescription(parseTitle("no ticket fix typo"), {}, { template }),
+    "## Summary\n\nFix typo\n\n## Screenshots",
+  );
+});
+
+Deno.test("convert - description mode embeds the screenshot table", () => {
+  const images =
+    '<img alt="1. Login before" src="a.png" />\n<img alt="1. Login after" src="b.png" />';
+  const config = {
+    ...DEFAULT_CONFIG,
+    description: {
+      ...DEFAULT_CONFIG.description,
+      template: "{title}\n\n{summary}\n\n## Screenshots\n\n{screenshots}",
+    },
+  };
+  const result = convert(
+    `[MB-80] [PART-1] Group by lot\nMoves grouping.\n\n${images}\n`,
+    { mode: "description", config },
+  );
+  assertEquals(
+    result.ok && result.output,
+    [
+      "[MB-80] [PART-1] Group by lot",
+      "Moves grouping.",
+      "## Screenshots",
+      convertContent(images).output,
+    ].join("\n\n"),
+  );
+  assertEquals(result.ok && result.counts, {
+    images: 2,
+    categories: 1,
+    tables: 1,
+  });
+
+  // Notes right above a video stay in the summary
+  const video = "https://github.com/user-attachments/assets/abc-123";
+  const noted = convert(`Mb 80 fix spinner\nThe spinner is fixed.\n${video}`, {
+    mode: "description",
+    config,
+  });
+  assertEquals(
+    noted.ok && noted.output.startsWith(
+      "[MB-80] Fix spinner\n\nThe spinner is fixed.\n\n## Screenshots",
+    ),
+    true,
+  );
+  assertEquals(noted.ok && noted.output.includes("<th>Video 1</th>"), true);
+
+  const failed = convert(images, { mode: "description", config });
+  assertEquals(!failed.ok && failed.error.code, "UNPARSEABLE_TITLE");
+});
+
+Deno.test("parsePRTitle - configurable no-ticket and part labels", () => {
+  const options = { noTicketLabel: "NT", partLabel: "Step" };
+  assertEquals(
+    parsePRTitle("no ticket feature name part 2", options),
+    "[NT] [Step-2] Feature name",
+  );
+});
+
+Deno.test("generateTable - configurable width, summary and columns", () => {
+  const images = parseImages(`
+    <img alt="1. One" src="1.png" />
+    <img alt="2. Two" src="2.png" />
+    <img alt="3. Three" src="3.png" />
+    <img alt="4. Four" src="4.png" />
+  `);
+  const { standaloneImages, pairedGroups } = groupImagesByCategory(images);
+  const html = generateTable(standaloneImages, pairedGroups, {
+    width: 250,
+    summary: "Screens",
+    columns: 3,
+  });
+
+  assertEquals(html.startsWith("<details><summary>Screens</summary>"), true);
+  assertEquals(html.match(/width="250"/g)?.length, 4);
+  // One full row of three titles, then one title padded with two empty cells
+  assertEquals(html.match(/<th>/g)?.length, 6);
+  assertEquals(html.match(/<th><\/th>/g)?.length, 2);
+});
+
+Deno.test("generateTable - widths per timing, wrapper and headers", () => {
+  const images = parseImages(`
+    <img alt="1. Hero" src="hero.png" />
+    <img alt="2. Login before" src="a.png" />
+    <img alt="2. Login after" src="b.png" />
+  `);
+  const { standaloneImages, pairedGroups } = groupImagesByCategory(images);
+
+  const widths = generateTable(standaloneImages, pairedGroups, {
+    width: { before: 250, after: 300 },
+    details: "open",
+  });
+  assertEquals(widths.startsWith("<details open><summary>"), true);
+  assertEquals(widths.includes('src="hero.png" alt="Hero" width="400"'), true);
+  assertEquals(widths.includes('src="a.png" alt="Login" width="250"'), true);
+  assertEquals(widths.includes('src="b.png" alt="Login" width="300"'), true);
+
+  const bare = generateTable(standaloneImages, pairedGroups, {
+    details: "none",
+    headers: false,
+  });
+  assertEquals(bare.startsWith("<table>\n"), true);
+  assertEquals(bare.endsWith("</table>"), true);
+  assertEquals(bare.includes("<th"), false);
+
+  assertEquals(
+    validateConfig({ table: { width: { before: 250 } } }, "test.json"),
+    { table: { width: { before: 250 } } },
+  );
+  assertThrows(
+    () => validateConfig({ table: { width: { before: "250" } } }, "test.json"),
+    ConfigError,
+    "table.width",
+  );
+});
+
+Deno.test("generateTable - keeps image sizes unless a width is configured", () => {
+  const images = parseImages(`
+    <img width="1170" height="2532" alt="1. Hero" src="hero.png" />
+    <img height="600" alt="2. Login before" src="a.png" />
+    <img alt="2. Login after" src="b.png" />
+  `);
+  const { standaloneImages, pairedGroups } = groupImagesByCategory(images);
+
+  const own = generateTable(standaloneImages, pairedGroups);
+  assertEquals(own.includes('alt="Hero" width="1170" height="2532">'), true);
+  assertEquals(own.includes('src="a.png" alt="Login" height="600">'), true);
+  assertEquals(own.includes('src="b.png" alt="Login" width="400">'), true);
+
+  const configured = generateTable(standaloneImages, pairedGroups, {
+    width: { standalone: 250 },
+  });
+  assertEquals(configured.includes('alt="Hero" width="250">'), true);
+  assertEquals(configured.includes('alt="Login" height="600">'), true);
+
+  // The sizes are read back from the table
+  const input = '<img width="1170" height="2532" alt="1. Hero" src="h.png" />';
+  const first = convertContent(input, "table").output;
+  assertEquals(first.includes('width="1170" height="2532"'), true);
+  assertEquals(convertContent(first).output, first);
+});
+
+Deno.test("parseFilename - state synonyms, prefixes and separators", () => {
+  const cases: [string, string, string][] = [
+    ["old_login", "login", "before"],
+    ["login-new", "login", "after"],
+    ["avant_login", "login", "before"],
+    ["login (before)", "login", "before"],
+    ["login [Après].png", "login", "after"],
+    ["BEFORE - login", "login", "before"],
+    ["2. prev.checkout.png", "checkout", "before"],
+    ["Checkout_proposed.jpg", "Checkout", "after"],
+    ["Settings (Vorher)", "Settings", "before"],
+    ["Settings.vorher", "Settings", "before"],
+    ["my_image_before_v2", "my image before v2", "standalone"],
+    ["newsletter", "newsletter", "standalone"],
+    ["[new] Home", "Home", "after"],
+    ["NEW: Home", "Home", "after"],
+    // Names that merely start with a synonym stay standalone
+    ["1. New user onboarding", "New user onboarding", "standalone"],
+    ["2. Current balance", "Current balance", "standalone"],
+    ["3. Next steps", "Next steps", "standalone"],
+    ["Old-school theme", "Old-school theme", "standalone"],
+    ["1 Create new", "Create new", "standalone"],
+    ["2 Show previous", "Show previous", "standalone"],
+    ["5 Load next", "Load next", "standalone"],
+    ["Login Before", "Login", "before"],
+  ];
+  for (const [filename, name, timing] of cases) {
+    const parsed = parseFilename(filename);
+    assertEquals([parsed.formattedAlt, parsed.timing], [name, timing]);
+  }
+});
+
+Deno.test("generateTable - localized state labels", () => {
+  const images = parseImages(`
+    <img alt="1. Accueil (avant)" src="a.png" />
+    <img alt="1. Accueil (après)" src="b.png" />
+  `);
+  const { standaloneImages, pairedGroups } = groupImagesByCategory(images);
+  const html = generateTable(standaloneImages, pairedGroups, {}, {
+    labels: { before: "Avant", after: "Après" },
+  });
+  assertEquals(
+    html.includes("    <th>Avant</th>\n    <th>Après</th>\n"),
+    true,
+  );
+  assertEquals(html.includes('<th colspan="2">Accueil</th>'), true);
+});
+
+Deno.test("comparison states - N columns with state labels", () => {
+  const states = [
+    { keyword: "ios", label: "iOS" },
+    { keyword: "android" },
+    { keyword: "web" },
+  ];
+  assertEquals(parseFilename("3. Login_android.png", states), {
+    order: 3,
+    timing: "android",
+    formattedAlt: "Login",
+  });
+  assertEquals(parseFilename("3. Login before", states).timing, "standalone");
+
+  const images = parseImages(
+    `
+    <img alt="1. Login iOS" src="a.png" />
+    <img alt="1. Login Android" src="b.png" />
+    <img alt="2. Profile web" src="c.png" />
+  `,
+    { states },
+  );
+  const { standaloneImages, pairedGroups } = groupImagesByCategory(images);
+  assertEquals(standaloneImages, []);
+  assertEquals(Object.keys(pairedGroups.get("Login")!.images), [
+    "ios",
+    "android",
+  ]);
+
+  const html = generateTable(standaloneImages, pairedGroups, {}, { states });
+  assertEquals(html.match(/<th colspan="3">/g)?.length, 2);
+  assertEquals(
+    html.includes(
+      "    <th>iOS</th>\n    <th>Android</th>\n    <th>Web</th>\n",
+    ),
+    true,
+  );
+  // Missing states leave an empty cell
+  assertEquals(html.match(/<td><\/td>/g)?.length, 3);
+
+  const markdown = generateMarkdownTable(
+    standaloneImages,
+    pairedGroups,
+    {},
+    { states },
+  );
+  assertEquals(markdown.split("\n").slice(0, 3), [
+    "| Login |  |  |",
+    "| --- | --- | --- |",
+    "| **iOS** | **Android** | **Web** |",
+  ]);
+
+  assertThrows(
+    () =>
+      validateConfig(
+        { images: { states: [{ keyword: "a" }, { keyword: "A" }] } },
+        "test.json",
+      ),
+    ConfigError,
+    "images.states: expected unique state keywords",
+  );
+});
+
+Deno.test("generateTable - default layout is unchanged", () => {
+  const images = parseImages(`<img alt="1. One" src="1.png" />`);
+  const { standaloneImages, pairedGroups } = groupImagesByCategory(images);
+  assertEquals(
+    generateTable(standaloneImages, pairedGroups),
+    "<details><summary>Click to expand...</summary>\n<table>\n" +
+      "  <tr>\n    <th>One</th>\n    <th></th>\n  </tr>\n" +
+      '  <tr>\n    <td><img src="1.png" alt="One" width="400"></td>\n' +
+      "    <td></td>\n  </tr>\n</table></details>",
+  );
+});
+
+Deno.test("generateMarkdownTable - same layout as the HTML table", () => {
+  const images = parseImagesMarkdown(`
+    ![1. Home](home.png)
+    ![2. Login before](login-old.png)
+    ![2. Login after](<my login.png>)
+    ![3. A | B](ab.png)
+  `);
+  const { standaloneImages, pairedGroups } = groupImagesByCategory(images);
+  assertEquals(
+    generateMarkdownTable(standaloneImages, pairedGroups),
+    [
+      "| Home |  |",
+      "| --- | --- |",
+      "| ![Home](home.png) |  |",
+      "| **Login** |  |",
+      "| **Before** | **After** |",
+      "| ![Login](login-old.png) | ![Login](<my login.png>) |",
+      "| **A \\| B** |  |",
+      "| ![A \\| B](ab.png) |  |",
+    ].join("\n"),
+  );
+});
+
+Deno.test("renderTable - picks the renderer by name or input syntax", () => {
+  const images = parseImages(`<img alt="1. One" src="1.png" />`);
+  const { standaloneImages, pairedGroups } = groupImagesByCategory(images);
+  const render = (
+    renderer: "auto" | "html" | "markdown",
+    syntax: "html" | "markdown",
+  ) => renderTable(standaloneImages, pairedGroups, { renderer }, syntax);
+
+  assertEquals(
+    render("auto", "html"),
+    generateTable(standaloneImages, pairedGroups),
+  );
+  assertEquals(render("auto", "markdown").startsWith("| One |"), true);
+  assertEquals(render("html", "markdown").startsWith("<details>"), true);
+  assertEquals(render("markdown", "html").startsWith("| One |"), true);
+});
+
+Deno.test("validateConfig points at the invalid key", () => {
+  assertEquals(validateConfig({ table: { width: 250 } }, "test.json"), {
+    table: { width: 250 },
+  });
+  assertThrows(
+    () => validateConfig({ table: { width: "250" } }, "test.json"),
+    ConfigError,
+    "test.json: table.width: expected a positive integer",
+  );
+  assertThrows(
+    () => validateConfig({ title: { template: "{ticket} {oops}" } }, "a"),
+    ConfigError,
+    "title.template: unknown placeholder {oops}",
+  );
+  assertThrows(
+    () => validateConfig({ tabel: {} }, "test.json"),
+    ConfigError,
+    "tabel: unknown key",
+  );
+});
+
+Deno.test("loadConfig lets repositories override user defaults", async () => {
+  const files: Record<string, string> = {
+    "/home/me/.prparser.json": JSON.stringify({
+      table: { width: 300, columns: 3 },
+      title: { partLabel: "STEP" },
+    }),
+    "/home/me/work/repo/deno.json": JSON.stringify({
+      prParser: { table: { width: 250 } },
+    }),
+    "/home/me/work/repo/.prparser.json": JSON.stringify({
+      title: { noTicketLabel: "none" },
+    }),
+  };
+
+  const { config, sources } = await loadConfig({
+    cwd: "/home/me/work/repo",
+    home: "/home/me",
+    readFile: (path) => Promise.resolve(files[path]),
+  });
+
+  assertEquals(config.table.width, 250);
+  assertEquals(config.table.columns, 3);
+  assertEquals(config.table.summary, "Click to expand...");
+  assertEquals(config.title.noTicketLabel, "none");
+  assertEquals(config.title.partLabel, "STEP");
+  assertEquals(sources, [
+    "/home/me/.prparser.json",
+    "/home/me/work/repo/deno.json (prParser)",
+    "/home/me/work/repo/.prparser.json",
+  ]);
+});
+
+Deno.test("loadConfig checks per-state widths against the states", async () => {
+  const files: Record<string, string> = {
+    "/home/me/.prparser.json": JSON.stringify({
+      images: { states: [{ keyword: "light" }, { keyword: "dark" }] },
+    }),
+    "/home/me/repo/.prparser.json": JSON.stringify({
+      table: { width: { dark: 300, standalone: 500 } },
+    }),
+  };
+  const readFile = (path: string) => Promise.resolve(files[path]);
+  const { config } = await loadConfig({
+    cwd: "/home/me/repo",
+    home: "/home/me",
+    readFile,
+  });
+  assertEquals(config.table.width, { dark: 300, standalone: 500 });
+
+  files["/home/me/repo/.prparser.json"] = JSON.stringify({
+    table: { width: { befor: 250 } },
+  });
+  await assertRejects(
+    () => loadConfig({ cwd: "/home/me/repo", home: "/home/me", readFile }),
+    ConfigError,
+    'table.width: unknown state "befor", expected "light", "dark" or "standalone"',
+  );
+  // Without configured states, the keys are the default ones
+  files["/repo/.prparser.json"] = files["/home/me/repo/.prparser.json"];
+  await assertRejects(
+    () => loadConfig({ cwd: "/repo", home: "/nowhere", readFile }),
+    ConfigError,
+    'unknown state "befor", expected "before", "after" or "standalone"',
+  );
+});
+
+Deno.test("loadConfig resolves converter modules next to their file", async () => {
+  const files: Record<string, string> = {
+    "/repo/.prparser.json": JSON.stringify({
+      converters: ["./tools/jira.ts", "/opt/shared.ts", "C:\\tools\\x.ts"],
+    }),
+  };
+  const { config } = await loadConfig({
+    cwd: "/repo/app",
+    home: "/home/me",
+    readFile: (path) => Promise.resolve(files[path]),
+  });
+  assertEquals(config.converters, [
+    "/repo/tools/jira.ts",
+    "/opt/shared.ts",
+    "C:\\tools\\x.ts",
+  ]);
+  assertEquals(isAbsolutePath("C:\\tools\\x.ts"), true);
+  assertEquals(isAbsolutePath("data:application/javascript,"), true);
+  assertEquals(isAbsolutePath("tools/x.ts"), false);
+  assertThrows(
+    () => validateConfig({ converters: "jira.ts" }, "test.json"),
+    ConfigError,
+    "converters",
+  );
+});
+
+Deno.test("loadConfig reads the description template file", async () => {
+  const files: Record<string, string> = {
+    "/repo/.prparser.json": JSON.stringify({
+      description: { templateFile: ".github/pr.md" },
+    }),
+    "/repo/.github/pr.md": "{ticketLink}\n\n{screenshots}",
+  };
+  const readFile = (path: string) => Promise.resolve(files[path]);
+  const { config } = await loadConfig({ cwd: "/repo", home: "/", readFile });
+  assertEquals(config.description.templateFile, "/repo/.github/pr.md");
+  assertEquals(
+    (await loadDescriptionTemplate(config, readFile)).description.template,
+    "{ticketLink}\n\n{screenshots}",
+  );
+
+  // A broken template only fails when the description is built
+  files["/repo/.github/pr.md"] = "{ticketLink} {author}";
+  const { config: broken } = await loadConfig({
+    cwd: "/repo",
+    home: "/",
+    readFile,
+  });
+  await assertRejects(
+    () => loadDescriptionTemplate(broken, readFile),
+    ConfigError,
+    "/repo/.github/pr.md: unknown placeholder {author}",
+  );
+  delete files["/repo/.github/pr.md"];
+  await assertRejects(
+    () => loadDescriptionTemplate(broken, readFile),
+    ConfigError,
+    "/repo/.github/pr.md: file not found",
+  );
+});
+
+Deno.test("parseTitle splits ticket, part and feature", () => {
+  assertEquals(parseTitle("Saas 1234 feature name part 1"), {
+    tickets: [{ key: "SAAS", number: "1234" }],
+    noTicket: false,
+    part: "1",
+    feature: "feature name",
+    warnings: [],
+  });
+  assertEquals(parseTitle("no ticket feature name"), {
+    tickets: [],
+    noTicket: true,
+    feature: "feature name",
+    warnings: [],
+  });
+  assertEquals(parsePRTitle("   "), "");
+});
+
+Deno.test("renderTitle - presets", () => {
+  const parsed = parseTitle("Mb 80 Feature name part 1");
+  assertEquals(renderTitle(parsed), "[MB-80] [PART-1] Feature name");
+  assertEquals(
+    renderTitle(parsed, { template: "colon" }),
+    "MB-80: Feature name (part 1)",
+  );
+  assertEquals(
+    renderTitle(parsed, { template: "conventional" }),
+    "feat(MB-80): feature name (part 1)",
+  );
+  assertEquals(
+    renderTitle(parseTitle("no ticket Fix typo"), { template: "conventional" }),
+    "feat: fix typo",
+  );
+  assertEquals(
+    renderTitle(parseTitle("Mb 80 feature"), { template: "plain" }),
+    "MB-80 Feature",
+  );
+});
+
+Deno.test("renderTitle - custom template", () => {
+  assertEquals(
+    parsePRTitle("Saas 12 feature part 3", {
+      template: "{key|lower}/{number} {feature|upper}{part: #%}",
+    }),
+    "saas/12 FEATURE #3",
+  );
+});
+
+Deno.test("renderTemplate - formats, lists and empty values", () => {
+  assertEquals(
+    renderTemplate("{ticket:[%]} {part:[{label}-%]}", {
+      ticket: ["MB-1", "MB-2"],
+      part: "2",
+      label: "PART",
+    }),
+    "[MB-1] [MB-2] [PART-2]",
+  );
+  assertEquals(renderTemplate("a{missing:(%)}b", {}), "ab");
+  // Values are inserted as they are, "$&" included
+  assertEquals(
+    renderTemplate("{feature:[%]}", { feature: "Price in $& and $1" }),
+    "[Price in $& and $1]",
+  );
+});
+
+Deno.test("matchProjectKey corrects near misses", () => {
+  const keys = ["MB", "SAAS"];
+  assertEquals(matchProjectKey("mb", keys), "MB");
+  assertEquals(matchProjectKey("Mbb", keys), "MB");
+  assertEquals(matchProjectKey("SAS", keys), "SAAS");
+  assertEquals(matchProjectKey("Fix", keys), undefined);
+  assertEquals(matchProjectKey("SAS", keys, 0), undefined);
+});
+
+Deno.test("parsePRTitle - project key registry", () => {
+  const options = { projectKeys: ["MB", "SAAS"] };
+  assertEquals(
+    parsePRTitle("Fix login bug", options),
+    "[no-ticket] Fix login bug",
+  );
+  assertEquals(parsePRTitle("Mbb 80 fix login", options), "[MB-80] Fix login");
+  assertEquals(
+    parsePRTitle("SAS 12 fix login", options),
+    "[SAAS-12] Fix login",
+  );
+  assertEquals(
+    parsePRTitle("Mb eighty fix", options),
+    "[no-ticket] Mb eighty fix",
+  );
+  // Without a registry any first two words still form a ticket
+  assertEquals(parsePRTitle("Fix login bug"), "[FIX-LOGIN] Bug");
+});
+
+Deno.test("parseTitle - unknown ticket warning", () => {
+  const parsed = parseTitle("Fix login bug", {
+    projectKeys: ["MB"],
+    unknownTicket: "warn",
+  });
+  assertEquals(parsed.warnings, [
+    'No ticket found: "Fix" is not a known project key (MB)',
+  ]);
+  assertEquals(renderTitle(parsed), "[FIX-LOGIN] Bug");
+});
+
+Deno.test("parseTicketUrl recognizes issue tracker URLs", () => {
+  assertEquals(parseTicketUrl("https://acme.atlassian.net/browse/MB-80"), {
+    ticket: { key: "MB", number: "80" },
+  });
+  assertEquals(
+    parseTicketUrl("https://linear.app/acme/issue/MB-80/some-slug"),
+    { ticket: { key: "MB", number: "80" }, slug: "some-slug" },
+  );
+  assertEquals(parseTicketUrl("https://github.com/acme/app/issues/123"), {
+    ticket: { key: "", number: "123" },
+  });
+  assertEquals(parseTicketUrl("https://example.com/about"), undefined);
+  // Other URLs ending with KEY-N need a known project key
+  const youtrack = "https://youtrack.acme.com/issue/MB-80";
+  assertEquals(parseTicketUrl(youtrack, ["mb"]), {
+    ticket: { key: "MB", number: "80" },
+  });
+  assertEquals(parseTicketUrl(youtrack), undefined);
+  assertEquals(
+    parseTicketUrl("https://github.com/acme/app/releases/v-2", ["MB"]),
+    undefined,
+  );
+});
+
+Deno.test("parsePRTitle - ticket from URL", () => {
+  assertEquals(
+    parsePRTitle(
+      "https://acme.atlassian.net/browse/MB-80 group by parking lot",
+    ),
+    "[MB-80] Group by parking lot",
+  );
+  assertEquals(
+    parsePRTitle("https://linear.app/acme/issue/MB-80/group-by-parking-lot"),
+    "[MB-80] Group by parking lot",
+  );
+  assertEquals(
+    parsePRTitle(
+      "https://linear.app/acme/issue/MB-80/some-slug Custom description part 2",
+    ),
+    "[MB-80] [PART-2] Custom description",
+  );
+  assertEquals(
+    parsePRTitle("https://github.com/acme/app/issues/123 fix crash"),
+    "[#123] Fix crash",
+  );
+  assertEquals(
+    parsePRTitle("https://acme.atlassian.net/browse/MB-80"),
+    "[MB-80]",
+  );
+});
+
+/**
+ * Fakes git by answering known commands, failing on anything else
+ */
+function fakeGit(responses: Record<string, string>) {
+  return (args: string[]) => {
+    const command = args.join(" ");
+    return command in responses
+      ? Promise.resolve(responses[command])
+      : Promise.reject(new GitError(`unexpected git ${command}`));
+  };
+}
+
+Deno.test("parseBranchName handles prefixes and missing tickets", () => {
+  assertEquals(
+    renderTitle(parseBranchName("feature/MB-80-group-by-lot")),
+    "[MB-80] Group by lot",
+  );
+  assertEquals(
+    renderTitle(parseBranchName("MB-95-preferred-times/remove-minimum")),
+    "[MB-95] Remove minimum",
+  );
+  assertEquals(
+    renderTitle(parseBranchName("fix-typo")),
+    "[no-ticket] Fix typo",
+  );
+  assertEquals(renderTitle(parseBranchName("MB-80")), "[MB-80]");
+});
+
+Deno.test("titleFromGit uses the branch slug", async () => {
+  const git = fakeGit({
+    "symbolic-ref --short HEAD": "MB-80-group-by-parking-lot",
+  });
+  assertEquals(
+    renderTitle(await titleFromGit({}, git)),
+    "[MB-80] Group by parking lot",
+  );
+});
+
+Deno.test("titleFromGit falls back to the first commit subject", async () => {
+  const git = fakeGit({
+    "symbolic-ref --short HEAD": "feature/MB-80",
+    "symbolic-ref --short refs/remotes/origin/HEAD": "origin/main",
+    "merge-base HEAD origin/main": "abc123",
+    "log --reverse --format=%s abc123..HEAD":
+      "[MB-80] Group by parking lot\nFix tests",
+  });
+  assertEquals(
+    renderTitle(await titleFromGit({}, git)),
+    "[MB-80] Group by parking lot",
+  );
+});
+
+Deno.test("prefixCommitMessage adds the ticket once", () => {
+  assertEquals(
+    prefixCommitMessage("Fix login\n", "[MB-80]", ["MB-80"]),
+    "[MB-80] Fix login\n",
+  );
+  assertEquals(
+    prefixCommitMessage("[MB-80] Fix login", "[MB-80]", ["MB-80"]),
+    "[MB-80] Fix login",
+  );
+  assertEquals(prefixCommitMessage("Fix login", "", []), "Fix login");
+  // A longer ticket is another ticket
+  assertEquals(
+    prefixCommitMessage("Follow-up to MB-800", "[MB-80]", ["MB-80"]),
+    "[MB-80] Follow-up to MB-800",
+  );
+
+  // The branch name in git's template is a comment, not a mention
+  const template = [
+    "",
+    "# Please enter the commit message for your changes. Lines starting",
+    "# with '#' will be ignored, and an empty message aborts the commit.",
+    "#",
+    "# On branch MB-80-fix-login",
+    "# Changes to be committed:",
+    "#\tmodified:   src/login.ts",
+    "#",
+    "# ------------------------ >8 ------------------------",
+    "# Do not modify or remove the line above.",
+    "# Everything below it will be ignored.",
+    "diff --git a/src/login.ts b/src/login.ts",
+    "+// MB-80 retry",
+    "",
+  ].join("\n");
+  assertEquals(
+    prefixCommitMessage(template, "[MB-80]", ["MB-80"]),
+    `[MB-80] ${template}`,
+  );
+});
+
+Deno.test("toBranchName slugifies titles", () => {
+  assertEquals(
+    toBranchName("Mb 80 group by parking lot"),
+    "MB-80-group-by-parking-lot",
+  );
+  assertEquals(
+    toBranchName("Mb 80 group by parking lot", {}, { style: "slash" }),
+    "MB-80/group-by-parking-lot",
+  );
+  assertEquals(
+    toBranchName("Saas 12 Résumé export: CSV & PDF part 2"),
+    "SAAS-12-resume-export-csv-pdf-part-2",
+  );
+  assertEquals(toBranchName("no ticket fix typo"), "no-ticket-fix-typo");
+  assertEquals(toBranchName("MB 123"), "MB-123");
+  assertEquals(
+    toBranchName("Mb 80 group by parking lot", {}, { maxLength: 20 }),
+    "MB-80-group-by",
+  );
+});
+
+Deno.test("toBranchName output parses back to the same title", () => {
+  const titles = [
+    "Mb 80 group by parking lot",
+    "Saas 1234 feature name part 1",
+    "no ticket fix typo",
+    "MB 123",
+  ];
+  for (const title of titles) {
+    for (const style of ["hyphen", "slash"] as const) {
+      assertEquals(
+        parsePRTitle(toBranchName(title, {}, { style })),
+        parsePRTitle(title),
+      );
+    }
+  }
+
+  // GitHub issues keep their number at the start of the branch
+  const issue = "https://github.com/acme/app/issues/123 fix login part 2";
+  assertEquals(toBranchName(issue), "123-fix-login-part-2");
+  for (const style of ["hyphen", "slash"] as const) {
+    assertEquals(
+      renderTitle(parseBranchName(toBranchName(issue, {}, { style }))),
+      parsePRTitle(issue),
+    );
+  }
+  // The branch name also reads back as a title
+  assertEquals(parsePRTitle(toBranchName(issue)), "[#123] [PART-2] Fix login");
+  assertEquals(parsePRTitle("123-fix/login"), "[#123] Fix login");
+});
+
+Deno.test("parsePRTitle - part suffix variants", () => {
+  const cases: Record<string, string> = {
+    "Mb 80 feature part 2/3": "[MB-80] [PART-2/3] Feature",
+    "Mb 80 feature part 2 of 3": "[MB-80] [PART-2/3] Feature",
+    "Mb 80 feature pt 2": "[MB-80] [PART-2] Feature",
+    "Mb 80 feature pt. 2": "[MB-80] [PART-2] Feature",
+    "Mb 80 feature (2 of 3)": "[MB-80] [PART-2/3] Feature",
+    "Mb 80 feature part II": "[MB-80] [PART-2] Feature",
+    "Mb 80 feature (part IV)": "[MB-80] [PART-4] Feature",
+    "Mb 80 feature (part 2)": "[MB-80] [PART-2] Feature",
+    "Mb 80 feature (2/3) cleanup": "[MB-80] [PART-2/3] Feature cleanup",
+    "Mb 80 show 2 of 3 items": "[MB-80] Show 2 of 3 items",
+    "Mb 80 feature [2/3]": "[MB-80] [PART-2/3] Feature",
+    // Ratios and counts past their total are not parts
+    "Mb 80 support 16/9": "[MB-80] Support 16/9",
+    "Mb 80 feature 2/3": "[MB-80] Feature 2/3",
+    "Mb 80 top 10 of 5": "[MB-80] Top 10 of 5",
+    "Mb 80 show top 5 of 10": "[MB-80] Show top 5 of 10",
+    // Lowercase roman numerals read as words
+    "Mb 80 move part x": "[MB-80] Move part x",
+    "Mb 80 fix part i need": "[MB-80] Fix part i need",
+    "Mb 80 aspect (16/9)": "[MB-80] Aspect (16/9)",
+    "Mb 80 partial refactor": "[MB-80] Partial refactor",
+  };
+  for (const [input, expected] of Object.entries(cases)) {
+    assertEquals(parsePRTitle(input), expected, input);
+  }
+});
+
+Deno.test("parsePRTitle - part total in templates and branches", () => {
+  assertEquals(
+    parsePRTitle("Mb 80 feature part 2/3", { template: "colon" }),
+    "MB-80: Feature (part 2/3)",
+  );
+  assertEquals(
+    parsePRTitle("Mb 80 feature part 2/3", {
+      template: "{ticket:[%]} {partNumber:[% of {partTotal}]} {feature}",
+    }),
+    "[MB-80] [2 of 3] feature",
+  );
+  assertEquals(
+    toBranchName("Mb 80 feature part 2/3"),
+    "MB-80-feature-part-2-of-3",
+  );
+  assertEquals(
+    parsePRTitle(toBranchName("Mb 80 feature part 2/3")),
+    "[MB-80] [PART-2/3] Feature",
+  );
+});
+
+Deno.test("extractPart warns about malformed part numbers", () => {
+  const result = extractPart("feature part 2a");
+  assertEquals(result.part, undefined);
+  assertEquals(result.rest, "feature part 2a");
+  assertEquals(result.warnings, [
+    '"part 2a" does not look like a part number, kept it in the title',
+  ]);
+  assertEquals(extractPart("this is part of the feature").warnings, []);
+  assertEquals(extractPart("feature part 4/3").warnings, [
+    "Part 4 is greater than the total of 3 parts",
+  ]);
+});
+
+Deno.test("parsePRTitle - multiple tickets", () => {
+  const options = { projectKeys: ["MB", "SAAS"] };
+  assertEquals(
+    parsePRTitle("Mb 80 mb 81 saas 12 shared date picker", options),
+    "[MB-80] [MB-81] [SAAS-12] Shared date picker",
+  );
+  assertEquals(
+    parsePRTitle("Mb 80 mb 81 saas 12 shared date picker", {
+      ...options,
+      multipleTickets: "combined",
+    }),
+    "[MB-80, MB-81, SAAS-12] Shared date picker",
+  );
+  // Duplicates are dropped
+  assertEquals(
+    parsePRTitle("Mb 80 mb 80 MB-81 picker", options),
+    "[MB-80] [MB-81] Picker",
+  );
+  // Without a registry, only repeated keys or uppercase ticket forms count
+  assertEquals(
+    parsePRTitle("Mb 80 mb 81 SAAS-12 picker"),
+    "[MB-80] [MB-81] [SAAS-12] Picker",
+  );
+  assertEquals(
+    parsePRTitle("Mb 80 mb 81 saas 12 shared date picker"),
+    "[MB-80] [MB-81] Saas 12 shared date picker",
+  );
+  assertEquals(parsePRTitle("Mb 80 add 2 buttons"), "[MB-80] Add 2 buttons");
+});
+
+Deno.test("parsePRTitle - multiple tickets in slugs", () => {
+  assertEquals(
+    parsePRTitle("MB-80-MB-81-shared-date-picker"),
+    "[MB-80] [MB-81] Shared date picker",
+  );
+  assertEquals(
+    parsePRTitle("MB-80-SAAS-12/shared-date-picker"),
+    "[MB-80] [SAAS-12] Shared date picker",
+  );
+  assertEquals(
+    parsePRTitle("MB-80-add-2-buttons"),
+    "[MB-80] Add 2 buttons",
+  );
+  assertEquals(
+    parsePRTitle(toBranchName("Mb 80 mb 81 shared picker")),
+    "[MB-80] [MB-81] Shared picker",
+  );
+});
@@ -1,5 +1,5 @@
-import { convertClipboard } from "./convert/mod.ts";
+import { runCli } from "./cli/mod.ts";
 
 if (import.meta.main) {
-  await convertClipboard();
+  Deno.exit(await runCli(Deno.args));
 }
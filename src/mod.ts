@@ -1,12 +1,169 @@
-export type { ImageInfo } from "./types/mod.ts";
+export type {
+  BranchOptions,
+  ChangelogOptions,
+  ComparisonState,
+  DescriptionOptions,
+  ImageGroup,
+  ImageInfo,
+  ImageOptions,
+  MediaType,
+  ParsedTitle,
+  TableOptions,
+  TableRendererName,
+  Ticket,
+  TitleOptions,
+} from "./types/mod.ts";
+export { decodeEntities, escapeHtml, tokenizeTags } from "./html/mod.ts";
+export type { HtmlTag } from "./html/mod.ts";
 export {
+  compareImageOrder,
+  DEFAULT_IMAGE_OPTIONS,
+  detectImageSyntax,
+  detectMediaType,
+  findMediaRuns,
   formatCategoryTitle,
   groupImagesByCategory,
+  isMediaSnippet,
+  normalizeCategory,
   parseFilename,
   parseImages,
   parseImagesFromClipboard,
   parseImagesMarkdown,
+  parseTable,
+  sectionTitles,
+  stateLabel,
 } from "./images/mod.ts";
-export { parsePRTitle } from "./pr-title/mod.ts";
-export { convertClipboard } from "./convert/mod.ts";
-
+export {
+  DEFAULT_BRANCH_OPTIONS,
+  DEFAULT_TITLE_OPTIONS,
+  extractPart,
+  formatTicket,
+  linkTicket,
+  matchProjectKey,
+  parseFormattedTitle,
+  parsePRTitle,
+  parseTicketUrl,
+  parseTitle,
+  renderTitle,
+  TICKET_URL_PLACEHOLDERS,
+  TICKET_URL_RECOGNIZERS,
+  ticketUrl,
+  TITLE_PRESETS,
+  toBranchName,
+} from "./pr-title/mod.ts";
+export type { TicketUrlRecognizer } from "./pr-title/mod.ts";
+export { renderTemplate, validateTemplate } from "./template/mod.ts";
+export type { TemplateValues } from "./template/mod.ts";
+export {
+  DEFAULT_TABLE_OPTIONS,
+  generateMarkdownTable,
+  generateTable,
+  renderTable,
+  TABLE_RENDERERS,
+} from "./table/mod.ts";
+export type { TableRenderer } from "./table/mod.ts";
+export {
+  DEFAULT_CHANGELOG_OPTIONS,
+  groupChangelog,
+  isTitleList,
+  parseChangelog,
+  renderChangelog,
+} from "./changelog/mod.ts";
+export type { ChangelogEntry, ChangelogSection } from "./changelog/mod.ts";
+export {
+  DEFAULT_DESCRIPTION_OPTIONS,
+  DEFAULT_DESCRIPTION_TEMPLATE,
+  DESCRIPTION_PLACEHOLDERS,
+  partNavigation,
+  renderDescription,
+} from "./description/mod.ts";
+export type { DescriptionContent } from "./description/mod.ts";
+export {
+  ConfigError,
+  DEFAULT_CONFIG,
+  loadConfig,
+  loadDescriptionTemplate,
+  mergeConfig,
+  validateConfig,
+} from "./config/mod.ts";
+export type { PartialConfig, PRParserConfig } from "./config/mod.ts";
+export {
+  ClipboardError,
+  createAutoClipboard,
+  createClipboardBackend,
+  createMemoryClipboard,
+  detectClipboardBackends,
+  readClipboard,
+  setClipboardBackend,
+  writeClipboard,
+} from "./clipboard/mod.ts";
+export type {
+  ClipboardBackend,
+  ClipboardBackendName,
+} from "./clipboard/mod.ts";
+export {
+  appleScriptString,
+  createConsoleNotifier,
+  createLinuxNotifier,
+  createMacNotifier,
+  createNotifier,
+  createQuietNotifier,
+  createRecordingNotifier,
+  detectNotifier,
+  dialogCommand,
+  getNotifier,
+  markupString,
+  pasteCommand,
+  progressCommand,
+  setNotifier,
+  showDialog,
+  showProgress,
+} from "./system/mod.ts";
+export type {
+  DialogType,
+  Notifier,
+  NotifierCommand,
+  NotifierEvent,
+  NotifierName,
+  RecordingNotifier,
+} from "./system/mod.ts";
+export {
+  BUILTIN_CONVERTERS,
+  ConversionError,
+  convert,
+  convertClipboard,
+  convertContent,
+  DEFAULT_CONVERT_OPTIONS,
+  detectMode,
+} from "./convert/mod.ts";
+export type {
+  ConversionCounts,
+  ConversionErrorCode,
+  ConversionMode,
+  ConversionResult,
+  ConvertOptions,
+} from "./convert/mod.ts";
+export {
+  ConverterLoadError,
+  createConverterRegistry,
+  isAbsolutePath,
+  loadConverters,
+} from "./converters/mod.ts";
+export type {
+  Converter,
+  ConverterOutput,
+  ConverterRegistry,
+} from "./converters/mod.ts";
+export {
+  getCurrentBranch,
+  getDefaultBranch,
+  getFirstCommitSubject,
+  GitError,
+  parseBranchName,
+  prefixCommitMessage,
+  runPrepareCommitMsgHook,
+  titleFromGit,
+} from "./git/mod.ts";
+export type { GitRunner } from "./git/mod.ts";
+export { parseCliArgs, runCli, UsageError, VERSION } from "./cli/mod.ts";
+export type { CliOptions } from "./cli/mod.ts";
@@ -1,99 +1,774 @@
+import type {
+  BranchOptions,
+  ParsedTitle,
+  Ticket,
+  TitleOptions,
+} from "../types/mod.ts";
+import {
+  renderTemplate,
+  type TemplateValues,
+  validateTemplate,
+} from "../template/mod.ts";
+
 /**
- * Parses a PR title and formats it with ticket identifier and optional part suffix
+ * Named title templates, selectable through `title.template`
+ * - default: "[MB-80] [PART-1] Feature name"
+ * - colon: "MB-80: Feature name (part 1)"
+ * - conventional: "feat(MB-80): feature name (part 1)"
+ * - plain: "MB-80 Feature name (part 1)"
+ */
+export const TITLE_PRESETS: Record<string, string> = {
+  default: "{ticket:[%]} {part:[{partLabel}-%]} {feature|capitalize}",
+  colon: "{ticket:%:} {feature|capitalize} {part:(part %)}",
+  conventional: "feat{id:(%)}: {feature|lower} {part:(part %)}",
+  plain: "{ticket} {feature|capitalize} {part:(part %)}",
+};
+
+/**
+ * Placeholders available to title templates
+ */
+export const TITLE_PLACEHOLDERS = [
+  "ticket",
+  "id",
+  "key",
+  "number",
+  "part",
+  "partNumber",
+  "partTotal",
+  "partLabel",
+  "feature",
+] as const;
+
+export const DEFAULT_TITLE_OPTIONS: TitleOptions = {
+  noTicketLabel: "no-ticket",
+  partLabel: "PART",
+  template: "default",
+  projectKeys: [],
+  unknownTicket: "no-ticket",
+  maxTypoDistance: 1,
+  multipleTickets: "separate",
+};
+
+export const DEFAULT_BRANCH_OPTIONS: BranchOptions = {
+  style: "hyphen",
+  maxLength: 60,
+};
+
+/**
+ * Resolves a preset name to its template, leaving custom templates untouched
+ */
+export function resolveTitleTemplate(template: string): string {
+  return TITLE_PRESETS[template] ?? template;
+}
+
+/**
+ * Checks a preset name or custom template, returning a description of the
+ * problem when it is invalid
+ */
+export function validateTitleTemplate(template: string): string | undefined {
+  return validateTemplate(resolveTitleTemplate(template), TITLE_PLACEHOLDERS);
+}
+
+/**
+ * Formats a ticket as its identifier, e.g. "MB-80", or "#123" for tickets
+ * without a project key such as GitHub issues
+ */
+export function formatTicket(ticket: Ticket): string {
+  if (!ticket.key) return `#${ticket.number}`;
+  return ticket.number ? `${ticket.key}-${ticket.number}` : ticket.key;
+}
+
+/**
+ * Recognizes an issue tracker URL and extracts its ticket, plus the feature
+ * slug when the URL carries one
+ */
+export interface TicketUrlRecognizer {
+  name: string;
+  pattern: RegExp;
+  /** Only trusted when the ticket key is one of the configured project keys */
+  knownKeysOnly?: boolean;
+  toTicket(match: RegExpMatchArray): { ticket: Ticket; slug?: string };
+}
+
+export const TICKET_URL_RECOGNIZERS: TicketUrlRecognizer[] = [
+  {
+    // https://acme.atlassian.net/browse/MB-80
+    name: "jira",
+    pattern:
+      /^https?:\/\/[^/]+\/browse\/([A-Za-z][A-Za-z0-9]*)-(\d+)\/?(?:[?#].*)?$/,
+    toTicket: (match) => ({
+      ticket: { key: match[1].toUpperCase(), number: match[2] },
+    }),
+  },
+  {
+    // https://linear.app/acme/issue/MB-80/some-slug
+    name: "linear",
+    pattern:
+      /^https?:\/\/linear\.app\/[^/]+\/issue\/([A-Za-z][A-Za-z0-9]*)-(\d+)(?:\/([^/?#]+))?\/?(?:[?#].*)?$/,
+    toTicket: (match) => ({
+      ticket: { key: match[1].toUpperCase(), number: match[2] },
+      slug: match[3],
+    }),
+  },
+  {
+    // https://github.com/acme/app/issues/123
+    name: "github",
+    pattern:
+      /^https?:\/\/github\.com\/[^/]+\/[^/]+\/issues\/(\d+)\/?(?:[?#].*)?$/,
+    toTicket: (match) => ({ ticket: { key: "", number: match[1] } }),
+  },
+  {
+    // Any other tracker whose path ends with KEY-123, e.g. YouTrack. Paths
+    // such as "/releases/v-2" end the same way, hence the known keys only.
+    name: "generic",
+    pattern: /^https?:\/\/\S+\/([A-Za-z][A-Za-z0-9]*)-(\d+)\/?(?:[?#].*)?$/,
+    knownKeysOnly: true,
+    toTicket: (match) => ({
+      ticket: { key: match[1].toUpperCase(), number: match[2] },
+    }),
+  },
+];
+
+/**
+ * Extracts the ticket from an issue tracker URL. Other URLs ending with
+ * KEY-123 only count when KEY is one of `projectKeys`.
  * Examples:
- * - "Mb 80 group by parking lot" -> "[MB-80] Group by parking lot"
- * - "Saas 1234 feature name part 1" -> "[SAAS-1234] [PART-1] Feature name"
- * - "no ticket feature name" -> "[no-ticket] Feature name"
- * - "Noticket feature name" -> "[no-ticket] Feature name"
- * - "MB 123" -> "[MB-123]"
+ * - "https://acme.atlassian.net/browse/MB-80" -> { ticket: MB-80 }
+ * - "https://linear.app/acme/issue/MB-80/some-slug" -> { ticket: MB-80, slug: "some-slug" }
+ * - "https://github.com/acme/app/issues/123" -> { ticket: #123 }
+ * - "https://youtrack.acme.com/issue/MB-80" with key MB -> { ticket: MB-80 }
+ * - "https://github.com/acme/app/releases/v-2" -> undefined
+ */
+export function parseTicketUrl(
+  url: string,
+  projectKeys: readonly string[] = [],
+): { ticket: Ticket; slug?: string } | undefined {
+  for (const recognizer of TICKET_URL_RECOGNIZERS) {
+    const match = url.match(recognizer.pattern);
+    if (!match) continue;
+    const found = recognizer.toTicket(match);
+    if (
+      !recognizer.knownKeysOnly ||
+      projectKeys.some((key) => key.toUpperCase() === found.ticket.key)
+    ) {
+      return found;
+    }
+  }
+  return undefined;
+}
+
+/**
+ * Splits a branch or URL slug into words
+ */
+function slugToWords(slug: string): string[] {
+  // Uppercase tickets such as "SAAS-12" stay whole so they can be detected
+  return slug
+    .split(/[_\s]+|-(?!\d)/)
+    .flatMap((word) =>
+      /^[A-Z][A-Z0-9]*-\d+$/.test(word) ? [word] : word.split("-")
+    )
+    .filter(Boolean);
+}
+
+/**
+ * Moves the tickets following the first one from `words` into `tickets`.
+ * A pair only counts as a ticket when its key is a registered project key or
+ * was already used by an earlier ticket, or when it is written in uppercase
+ * ticket form (SAAS-12), so that "add 2 buttons" stays a feature name.
+ */
+function takeAdditionalTickets(
+  tickets: Ticket[],
+  words: string[],
+  projectKeys: readonly string[],
+): string[] {
+  const knownKeys = projectKeys.map((key) => key.toUpperCase());
+  const add = (ticket: Ticket) => {
+    const id = formatTicket(ticket);
+    if (!tickets.some((existing) => formatTicket(existing) === id)) {
+      tickets.push(ticket);
+    }
+  };
+
+  let index = 0;
+  while (index < words.length) {
+    const ticketForm = words[index].match(/^([A-Z][A-Z0-9]*)-(\d+)$/);
+    if (ticketForm) {
+      add({ key: ticketForm[1], number: ticketForm[2] });
+      index += 1;
+      continue;
+    }
+
+    const key = words[index].toUpperCase();
+    const number = words[index + 1] ?? "";
+    const isKnownKey = knownKeys.includes(key) ||
+      tickets.some((ticket) => ticket.key === key);
+    if (/^[A-Za-z]+$/.test(key) && /^\d+$/.test(number) && isKnownKey) {
+      add({ key, number });
+      index += 2;
+      continue;
+    }
+    break;
+  }
+  return words.slice(index);
+}
+
+/**
+ * Computes the Levenshtein edit distance between two strings
+ */
+function editDistance(a: string, b: string): number {
+  let previous = Array.from({ length: b.length + 1 }, (_, j) => j);
+  for (let i = 1; i <= a.length; i++) {
+    const current = [i];
+    for (let j = 1; j <= b.length; j++) {
+      current[j] = Math.min(
+        previous[j] + 1,
+        current[j - 1] + 1,
+        previous[j - 1] + (a[i - 1] === b[j - 1] ? 0 : 1),
+      );
+    }
+    previous = current;
+  }
+  return previous[b.length];
+}
+
+/**
+ * Finds the registered project key matching `key`, allowing typos
+ * Examples (keys MB, SAAS, max distance 1):
+ * - "MB" -> "MB"
+ * - "MBB" -> "MB"
+ * - "SAS" -> "SAAS"
+ * - "FIX" -> undefined
+ */
+export function matchProjectKey(
+  key: string,
+  projectKeys: readonly string[],
+  maxDistance: number = DEFAULT_TITLE_OPTIONS.maxTypoDistance,
+): string | undefined {
+  const upperKey = key.toUpperCase();
+  const knownKeys = projectKeys.map((projectKey) => projectKey.toUpperCase());
+  if (knownKeys.includes(upperKey)) {
+    return upperKey;
+  }
+
+  let closest: { key: string; distance: number } | undefined;
+  for (const knownKey of knownKeys) {
+    const distance = editDistance(upperKey, knownKey);
+    if (distance <= maxDistance && (!closest || distance < closest.distance)) {
+      closest = { key: knownKey, distance };
+    }
+  }
+  return closest?.key;
+}
+
+const ROMAN_NUMERALS = [
+  "i",
+  "ii",
+  "iii",
+  "iv",
+  "v",
+  "vi",
+  "vii",
+  "viii",
+  "ix",
+  "x",
+  "xi",
+  "xii",
+  "xiii",
+  "xiv",
+  "xv",
+  "xvi",
+  "xvii",
+  "xviii",
+  "xix",
+  "xx",
+];
+
+// "part 2", "pt 2", "pt. 2", "part II", "part 2/3", "part 2 of 3", "(part 2)".
+// Roman numerals must be uppercase, so that "part x" or "part vi" stay words.
+const PART_PATTERN =
+  /(^|\s)\(?(?:part|pt\.?)(?:\s*(\d+)|\s+([ivx]+))(?:\s*(?:\/|of)\s*(\d+))?\)?(?=\s|$)/gi;
+// "2/3" and "2 of 3" within parentheses or brackets. A bare "16/9" reads as
+// a ratio and "top 5 of 10" as a count, not a part.
+const PARENTHESIZED_COUNT_PATTERN =
+  /(^|\s)[(\[](\d+)\s*(?:\/|of)\s*(\d+)[)\]](?=\s|$)/gi;
+// "part" followed by something number-like that is not a valid part
+const MALFORMED_PART_PATTERN = /(?:^|\s)((?:part|pt\.?)\s+\S*\d\S*)/gi;
+
+/**
+ * Finds the last part suffix in a feature name
+ * Examples:
+ * - "feature part 2" -> { part: "2", rest: "feature" }
+ * - "feature part 2/3" -> { part: "2", total: "3", rest: "feature" }
+ * - "feature (part II)" -> { part: "2", rest: "feature" }
+ * - "feature (2 of 3)" -> { part: "2", total: "3", rest: "feature" }
+ * - "show top 5 of 10" -> { rest: "show top 5 of 10" }
+ * - "support 16/9" -> { rest: "support 16/9" }
+ * - "feature part 2a" -> { rest: "feature part 2a", warnings: [...] }
+ */
+export function extractPart(text: string): {
+  part?: string;
+  total?: string;
+  rest: string;
+  warnings: string[];
+} {
+  const warnings: string[] = [];
+  let match: RegExpMatchArray | undefined = [...text.matchAll(PART_PATTERN)]
+    .filter((part) => !part[3] || part[3] === part[3].toUpperCase())
+    .at(-1);
+  let part: string | undefined;
+  let total: string | undefined;
+
+  if (match) {
+    part = match[2] ??
+      String(ROMAN_NUMERALS.indexOf(match[3].toLowerCase()) + 1);
+    total = match[4];
+    if (part === "0") {
+      // Not a valid roman numeral, e.g. "part xiiii"
+      match = undefined;
+      part = total = undefined;
+    }
+  }
+  if (!match) {
+    // A count without "part" is only a part when it is not past the total
+    const isCount = (count: RegExpMatchArray) =>
+      Number(count[2]) >= 1 && Number(count[2]) <= Number(count[3]);
+    match = [...text.matchAll(PARENTHESIZED_COUNT_PATTERN)]
+      .filter(isCount)
+      .at(-1);
+    part = match?.[2];
+    total = match?.[3];
+  }
+
+  let rest = text;
+  if (match && match.index !== undefined) {
+    rest = text.slice(0, match.index) + match[1] +
+      text.slice(match.index + match[0].length);
+  }
+  rest = rest.replace(/\s+/g, " ").trim();
+
+  for (const malformed of rest.matchAll(MALFORMED_PART_PATTERN)) {
+    warnings.push(
+      `"${
+        malformed[1]
+      }" does not look like a part number, kept it in the title`,
+    );
+  }
+  if (part && total && Number(part) > Number(total)) {
+    warnings.push(`Part ${part} is greater than the total of ${total} parts`);
+  }
+
+  return { part, total, rest, warnings };
+}
+
+/**
+ * Parses a PR title into its ticket, part and feature name
+ * Examples:
+ * - "Mb 80 group by parking lot" -> { tickets: [MB-80], feature: "group by parking lot" }
+ * - "Saas 1234 feature name part 1" -> { tickets: [SAAS-1234], part: "1", feature: "feature name" }
+ * - "Saas 1234 feature name part 2/3" -> { tickets: [SAAS-1234], part: "2", partTotal: "3", ... }
+ * - "no ticket feature name" -> { tickets: [], noTicket: true, feature: "feature name" }
+ * - "MB-95-preferred-times/remove-minimum" -> { tickets: [MB-95], feature: "remove minimum" }
+ * - "https://linear.app/acme/issue/MB-80/fix-login" -> { tickets: [MB-80], feature: "fix login" }
+ * - "123-fix-login" or "#123 fix login" -> { tickets: [#123], feature: "fix login" }
+ * With `projectKeys` set, only known keys followed by a number are tickets:
+ * - "Fix login bug" -> { tickets: [], noTicket: true, feature: "Fix login bug" }
+ * - "Mbb 80 fix" -> { tickets: [MB-80], feature: "fix" }
+ * - "Mb 80 mb 81 saas 12 fix" -> { tickets: [MB-80, MB-81, SAAS-12], feature: "fix" }
  */
-export function parsePRTitle(title: string): string {
+export function parseTitle(
+  title: string,
+  options: Partial<TitleOptions> = {},
+): ParsedTitle {
+  const { projectKeys, unknownTicket, maxTypoDistance } = {
+    ...DEFAULT_TITLE_OPTIONS,
+    ...options,
+  };
+
   // Trim whitespace
   const trimmed = title.trim();
 
-  const slashSlugMatch = trimmed.match(/^([A-Za-z]+)-(\d+)(?:-[^/]+)?\/(.+)$/);
+  // Issue tracker URL, optionally followed by a description
+  const urlMatch = trimmed.match(/^(https?:\/\/\S+)(?:\s+([\s\S]*))?$/);
+  const fromUrl = urlMatch
+    ? parseTicketUrl(urlMatch[1], projectKeys)
+    : undefined;
+
+  const noTicketSlugMatch = trimmed.match(/^no-?ticket[-/]([^\s]+)$/i);
+  const slashSlugMatch = trimmed.match(
+    /^([A-Za-z]+)-(\d+)(?:-([^/]+))?\/(.+)$/,
+  );
   const hyphenSlugMatch = trimmed.match(/^([A-Za-z]+)-(\d+)-(.+)$/);
+  // GitHub issue branches start with the issue number
+  const issueSlugMatch = trimmed.match(/^#?(\d+)[-/](\S+)$/);
   let words: string[] = [];
-  const match = slashSlugMatch ?? hyphenSlugMatch;
-  if (match) {
-    const ticketPrefix = match[1];
-    const ticketNumber = match[2];
-    const featureSlug = match[3];
-    const featureWords = featureSlug
-      .replace(/[_-]+/g, " ")
-      .split(/\s+/)
-      .filter(Boolean);
-    words = [ticketPrefix, ticketNumber, ...featureWords];
+  if (fromUrl) {
+    const description = (urlMatch?.[2] ?? "").split(/\s+/).filter(Boolean);
+    words = description.length > 0
+      ? description
+      : slugToWords(fromUrl.slug ?? "");
+  } else if (noTicketSlugMatch) {
+    words = ["no", "ticket", ...slugToWords(noTicketSlugMatch[1])];
+  } else if (slashSlugMatch) {
+    const [, ticketPrefix, ticketNumber, branchSlug, featureSlug] =
+      slashSlugMatch;
+    // Only tickets survive from the part before the slash
+    const extraTickets = (branchSlug ?? "").match(/[A-Z][A-Z0-9]*-\d+/g) ?? [];
+    words = [
+      ticketPrefix,
+      ticketNumber,
+      ...extraTickets,
+      ...slugToWords(featureSlug),
+    ];
+  } else if (hyphenSlugMatch) {
+    const [, ticketPrefix, ticketNumber, featureSlug] = hyphenSlugMatch;
+    words = [ticketPrefix, ticketNumber, ...slugToWords(featureSlug)];
+  } else if (issueSlugMatch) {
+    const [, number, featureSlug] = issueSlugMatch;
+    words = [
+      `#${number}`,
+      ...slugToWords(featureSlug.replace(/\//g, "-")),
+    ];
   } else {
     // Split into words
-    words = trimmed.split(/\s+/);
+    words = trimmed.split(/\s+/).filter(Boolean);
   }
 
-  if (words.length === 0) {
-    return "";
+  const parsed: ParsedTitle = {
+    tickets: [],
+    noTicket: false,
+    feature: "",
+    warnings: [],
+  };
+
+  if (fromUrl) {
+    parsed.tickets.push(fromUrl.ticket);
+  } else if (words.length === 0) {
+    return parsed;
   }
 
   // Extract first two words as ticket identifier
-  const firstWord = words[0].toLowerCase();
+  const firstWord = words.length > 0 ? words[0].toLowerCase() : "";
   const secondWord = words.length > 1 ? words[1].toLowerCase() : "";
 
-  let ticketId = "";
   let remainingWords: string[] = [];
+  const issueNumber = firstWord.match(/^#(\d+)$/)?.[1];
 
-  // Check for "no ticket" or "noticket" cases
-  if (firstWord === "no" && secondWord === "ticket") {
-    ticketId = "[no-ticket]";
+  if (fromUrl) {
+    // The URL already provided the ticket
+    remainingWords = words;
+  } else if (issueNumber) {
+    // GitHub issue, which has no project key
+    parsed.tickets.push({ key: "", number: issueNumber });
+    remainingWords = words.slice(1);
+  } else if (firstWord === "no" && secondWord === "ticket") {
+    // Check for "no ticket" or "noticket" cases
+    parsed.noTicket = true;
     remainingWords = words.slice(2);
   } else if (firstWord === "noticket") {
-    ticketId = "[no-ticket]";
+    parsed.noTicket = true;
     remainingWords = words.slice(1);
+  } else if (projectKeys.length > 0) {
+    // Registry mode: the first word must be a known key, followed by a number
+    const key = matchProjectKey(words[0], projectKeys, maxTypoDistance);
+    const hasNumber = /^\d+$/.test(secondWord);
+    if (key && (hasNumber || words.length === 1)) {
+      parsed.tickets.push({ key, number: hasNumber ? secondWord : "" });
+      remainingWords = words.slice(hasNumber ? 2 : 1);
+    } else {
+      const reason = key
+        ? `"${words[1]}" is not a ticket number`
+        : `"${words[0]}" is not a known project key (${
+          projectKeys.join(", ")
+        })`;
+      if (unknownTicket === "warn") {
+        parsed.warnings.push(`No ticket found: ${reason}`);
+        parsed.tickets.push({
+          key: words[0].toUpperCase(),
+          number: words.length > 1 ? words[1].toUpperCase() : "",
+        });
+        remainingWords = words.slice(2);
+      } else {
+        parsed.noTicket = true;
+        remainingWords = words;
+      }
+    }
   } else if (words.length >= 2) {
     // Normal ticket ID: first two words
-    ticketId = `[${words[0].toUpperCase()}-${words[1].toUpperCase()}]`;
+    parsed.tickets.push({
+      key: words[0].toUpperCase(),
+      number: words[1].toUpperCase(),
+    });
     remainingWords = words.slice(2);
   } else {
     // Only one word - treat as ticket without number
-    ticketId = `[${words[0].toUpperCase()}]`;
+    parsed.tickets.push({ key: words[0].toUpperCase(), number: "" });
     remainingWords = [];
   }
 
-  // If no remaining words, return just the ticket ID
-  if (remainingWords.length === 0) {
-    return ticketId;
+  if (parsed.tickets.length > 0) {
+    remainingWords = takeAdditionalTickets(
+      parsed.tickets,
+      remainingWords,
+      projectKeys,
+    );
   }
 
-  // Look for the last "part N" pattern in remaining words
-  let partSuffix = "";
-  let featureWords = [...remainingWords];
+  // Look for the last part suffix in remaining words
+  const part = extractPart(remainingWords.join(" "));
+  if (part.part) parsed.part = part.part;
+  if (part.total) parsed.partTotal = part.total;
+  parsed.warnings.push(...part.warnings);
+  parsed.feature = part.rest;
+  return parsed;
+}
 
-  // Search from the end for "part N" pattern
-  for (let i = featureWords.length - 2; i >= 0; i--) {
-    if (
-      featureWords[i].toLowerCase() === "part" &&
-      /^\d+$/.test(featureWords[i + 1])
-    ) {
-      partSuffix = `[PART-${featureWords[i + 1]}]`;
-      // Keep words before "part N" and words after "part N"
-      const beforePart = featureWords.slice(0, i);
-      const afterPart = featureWords.slice(i + 2);
-      featureWords = [...beforePart, ...afterPart];
+/**
+ * Renders a parsed title with the configured template. Placeholders with no
+ * value are dropped, along with the spacing they leave behind.
+ */
+export function renderTitle(
+  parsed: ParsedTitle,
+  options: Partial<TitleOptions> = {},
+): string {
+  const { noTicketLabel, partLabel, template, multipleTickets } = {
+    ...DEFAULT_TITLE_OPTIONS,
+    ...options,
+  };
+
+  const ids = multipleTickets === "combined" && parsed.tickets.length > 1
+    ? [parsed.tickets.map(formatTicket).join(", ")]
+    : parsed.tickets.map(formatTicket);
+  const values: TemplateValues = {
+    ticket: parsed.noTicket ? noTicketLabel : ids,
+    id: ids,
+    key: parsed.tickets[0]?.key,
+    number: parsed.tickets[0]?.number,
+    part: parsed.part && parsed.partTotal
+      ? `${parsed.part}/${parsed.partTotal}`
+      : parsed.part,
+    partNumber: parsed.part,
+    partTotal: parsed.partTotal,
+    partLabel,
+    feature: parsed.feature,
+  };
+
+  return renderTemplate(resolveTitleTemplate(template), values)
+    .replace(/\s+/g, " ")
+    .trim();
+}
+
+/**
+ * Parses a PR title and formats it with ticket identifier and optional part suffix
+ * Examples:
+ * - "Mb 80 group by parking lot" -> "[MB-80] Group by parking lot"
+ * - "Saas 1234 feature name part 1" -> "[SAAS-1234] [PART-1] Feature name"
+ * - "no ticket feature name" -> "[no-ticket] Feature name"
+ * - "Noticket feature name" -> "[no-ticket] Feature name"
+ * - "MB 123" -> "[MB-123]"
+ * - "123-fix-login" -> "[#123] Fix login"
+ */
+export function parsePRTitle(
+  title: string,
+  options: Partial<TitleOptions> = {},
+): string {
+  return renderTitle(parseTitle(title, options), options);
+}
+
+const TICKET_LIST_PATTERN =
+  /^((?:[A-Za-z][A-Za-z0-9]*-\d+|#\d+)(?:,\s*(?:[A-Za-z][A-Za-z0-9]*-\d+|#\d+))*):?\s+/;
+// Conventional commit type, e.g. "feat(MB-80): " or "fix: "
+const CONVENTIONAL_PATTERN =
+  /^(?:build|chore|ci|docs|feat|fix|perf|refactor|revert|style|test)(?:\(([^)]*)\))?!?:\s+/i;
+
+/**
+ * Reads a list of ticket identifiers, e.g. "MB-80, #12"
+ */
+function readTickets(text: string): Ticket[] | undefined {
+  const tickets: Ticket[] = [];
+  for (const id of text.split(/,\s*/)) {
+    const match = id.trim().match(/^(?:([A-Za-z][A-Za-z0-9]*)-(\d+)|#(\d+))$/);
+    if (!match) return undefined;
+    tickets.push(
+      match[3]
+        ? { key: "", number: match[3] }
+        : { key: match[1].toUpperCase(), number: match[2] },
+    );
+  }
+  return tickets;
+}
+
+/**
+ * Reads a title already formatted with one of the title presets, or returns
+ * undefined when it does not start with a formatted ticket, part or
+ * no-ticket marker
+ * Examples:
+ * - "[MB-80] [PART-2/3] Group by lot" -> { tickets: [MB-80], part: "2", partTotal: "3", feature: "Group by lot" }
+ * - "feat(MB-80, MB-81): fix login (part 1)" -> { tickets: [MB-80, MB-81], part: "1", feature: "fix login" }
+ * - "[no-ticket] Fix typo" -> { tickets: [], noTicket: true, feature: "Fix typo" }
+ */
+export function parseFormattedTitle(
+  title: string,
+  options: Partial<TitleOptions> = {},
+): ParsedTitle | undefined {
+  const { noTicketLabel, partLabel } = { ...DEFAULT_TITLE_OPTIONS, ...options };
+  const parsed: ParsedTitle = {
+    tickets: [],
+    noTicket: false,
+    feature: "",
+    warnings: [],
+  };
+  const isNoTicketLabel = (text: string) =>
+    text.toLowerCase() === noTicketLabel.toLowerCase();
+
+  let rest = title.trim();
+  let recognized = false;
+  for (
+    let bracket = rest.match(/^\[([^\]]*)\]\s*/);
+    bracket;
+    bracket = rest.match(/^\[([^\]]*)\]\s*/)
+  ) {
+    const content = bracket[1].trim();
+    const part = content.match(/^(.+)-(\d+)(?:\/(\d+))?$/);
+    const tickets = readTickets(content);
+    if (part && part[1].toLowerCase() === partLabel.toLowerCase()) {
+      parsed.part = part[2];
+      if (part[3]) parsed.partTotal = part[3];
+    } else if (isNoTicketLabel(content)) {
+      parsed.noTicket = true;
+    } else if (tickets) {
+      parsed.tickets.push(...tickets);
+    } else {
       break;
     }
+    recognized = true;
+    rest = rest.slice(bracket[0].length);
+  }
+
+  if (!recognized) {
+    const label = rest.match(/^(\S+?):?\s+/);
+    const conventional = rest.match(CONVENTIONAL_PATTERN);
+    const ticketList = rest.match(TICKET_LIST_PATTERN);
+    if (label && isNoTicketLabel(label[1])) {
+      parsed.noTicket = true;
+      rest = rest.slice(label[0].length);
+    } else if (ticketList) {
+      parsed.tickets.push(...readTickets(ticketList[1])!);
+      rest = rest.slice(ticketList[0].length);
+    } else if (conventional) {
+      const tickets = readTickets(conventional[1] ?? "");
+      if (tickets) {
+        parsed.tickets.push(...tickets);
+      } else {
+        parsed.noTicket = true;
+      }
+      rest = rest.slice(conventional[0].length);
+    } else {
+      return undefined;
+    }
   }
 
-  // If no feature words left after removing part suffix, return ticket + part only
-  if (featureWords.length === 0 && partSuffix) {
-    return `${ticketId} ${partSuffix}`;
+  const part = extractPart(rest);
+  if (!parsed.part && part.part) {
+    parsed.part = part.part;
+    if (part.total) parsed.partTotal = part.total;
+  }
+  parsed.feature = part.rest;
+  parsed.warnings.push(...part.warnings);
+  return parsed;
+}
+
+/**
+ * Placeholders available to ticket URL templates
+ */
+export const TICKET_URL_PLACEHOLDERS = ["ticket", "key", "number"] as const;
+
+/**
+ * Builds the URL of a ticket from a template, or returns undefined without a
+ * template or for GitHub issues such as "#12", which GitHub links already
+ * Examples:
+ * - MB-80 with "https://jira.acme.com/browse/{ticket}" -> "https://jira.acme.com/browse/MB-80"
+ */
+export function ticketUrl(
+  ticket: Ticket,
+  template: string,
+): string | undefined {
+  if (!template || !ticket.key) return undefined;
+  return renderTemplate(template, {
+    ticket: formatTicket(ticket),
+    key: ticket.key,
+    number: ticket.number,
+  });
+}
+
+/**
+ * Renders a ticket as a Markdown link when a URL template is set
+ * Examples:
+ * - MB-80 without template -> "MB-80"
+ * - MB-80 with "https://jira.acme.com/browse/{ticket}" -> "[MB-80](https://jira.acme.com/browse/MB-80)"
+ */
+export function linkTicket(ticket: Ticket, template: string): string {
+  const id = formatTicket(ticket);
+  const url = ticketUrl(ticket, template);
+  return url ? `[${id}](${url})` : id;
+}
+
+/**
+ * Turns text into lowercase ASCII words, dropping accents and punctuation
+ */
+function slugWords(text: string): string[] {
+  return text
+    .normalize("NFD")
+    .replace(/[\u0300-\u036f]/g, "")
+    .toLowerCase()
+    .split(/[^a-z0-9]+/)
+    .filter(Boolean);
+}
+
+/**
+ * Builds a git branch name from a PR title, using the same ticket and part
+ * detection as parsePRTitle so that the branch parses back to the title
+ * Examples:
+ * - "Mb 80 group by parking lot" -> "MB-80-group-by-parking-lot"
+ * - "Mb 80 group by parking lot" (slash style) -> "MB-80/group-by-parking-lot"
+ * - "Saas 12 Résumé export part 2" -> "SAAS-12-resume-export-part-2"
+ * - "Saas 12 export part 2/3" -> "SAAS-12-export-part-2-of-3"
+ * - "no ticket fix typo" -> "no-ticket-fix-typo"
+ * - "https://github.com/acme/app/issues/123 fix login" -> "123-fix-login"
+ */
+export function toBranchName(
+  title: string,
+  options: Partial<TitleOptions> = {},
+  branchOptions: Partial<BranchOptions> = {},
+): string {
+  const { style, maxLength } = { ...DEFAULT_BRANCH_OPTIONS, ...branchOptions };
+  const parsed = parseTitle(title, options);
+
+  const ids = parsed.tickets.map((ticket) =>
+    slugWords(formatTicket(ticket)).join("-").toUpperCase()
+  );
+  const prefix = parsed.noTicket ? "no-ticket" : ids.join("-");
+  const words = slugWords(parsed.feature);
+  if (parsed.part) {
+    words.push("part", parsed.part);
+    if (parsed.partTotal) {
+      words.push("of", parsed.partTotal);
+    }
   }
 
-  // Join feature words and capitalize first letter
-  const featureName = featureWords.join(" ");
-  const capitalizedFeature = featureName.charAt(0).toUpperCase() +
-    featureName.slice(1);
+  // Cut the feature slug at a word boundary, always keeping the ticket
+  const available = prefix ? maxLength - prefix.length - 1 : maxLength;
+  let slug = "";
+  for (const word of words) {
+    const candidate = slug ? `${slug}-${word}` : word;
+    if (candidate.length > available) {
+      if (!slug) slug = word.slice(0, Math.max(available, 0));
+      break;
+    }
+    slug = candidate;
+  }
 
-  // Construct final title
-  if (partSuffix) {
-    return `${ticketId} ${partSuffix} ${capitalizedFeature}`;
+  if (!prefix || !slug) {
+    return prefix || slug;
   }
-  return `${ticketId} ${capitalizedFeature}`;
+  return `${prefix}${style === "slash" ? "/" : "-"}${slug}`;
 }
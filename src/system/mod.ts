@@ -1,3 +1,5 @@
+import { escapeHtml } from "../html/mod.ts";
+
 /**
  * Checks if the app is running from the app bundle
  */
@@ -6,69 +8,400 @@ export function isRunningFromApp(): boolean {
   return execPath.includes(".app/") || Deno.args.includes("--app-mode");
 }
 
+export type DialogType = "info" | "warning" | "error";
+
 /**
- * Shows a macOS dialog using osascript
+ * A way to talk to the user: dialogs, progress toasts and pasting the result
+ * into the focused application
  */
-export async function showDialog(
+export interface Notifier {
+  name: string;
+  dialog(message: string, title: string, type: DialogType): Promise<void>;
+  progress(message: string): Promise<void>;
+  paste(): Promise<void>;
+}
+
+export const NOTIFIERS = ["macos", "linux", "console"] as const;
+
+export type NotifierName = typeof NOTIFIERS[number];
+
+/**
+ * Checks that a user-provided name matches a known notifier
+ */
+export function isNotifierName(name: string): name is NotifierName {
+  return (NOTIFIERS as readonly string[]).includes(name);
+}
+
+export interface NotifierCommand {
+  command: string;
+  args: string[];
+}
+
+/**
+ * Runs a notifier tool, returning false when it is not installed. The exit
+ * code is ignored: closing a dialog is not an error.
+ */
+async function runNotifierCommand(
+  { command, args }: NotifierCommand,
+): Promise<boolean> {
+  try {
+    await new Deno.Command(command, {
+      args,
+      stdin: "null",
+      stdout: "piped",
+      stderr: "piped",
+    }).output();
+    return true;
+  } catch (error) {
+    if (error instanceof Deno.errors.NotFound) {
+      return false;
+    }
+    throw error;
+  }
+}
+
+/**
+ * Quotes text as an AppleScript string, joining lines with `linefeed`
+ * Examples:
+ * - 'Say "hi"' -> '"Say \"hi\""'
+ * - "C:\\temp" -> '"C:\\\\temp"'
+ * - "a\nb" -> '"a" & linefeed & "b"'
+ */
+export function appleScriptString(text: string): string {
+  return text
+    .split(/\r\n|\r|\n/)
+    .map((line) => `"${line.replace(/[\\"]/g, "\\$&")}"`)
+    .join(" & linefeed & ");
+}
+
+/**
+ * Escapes text for tools reading Pango markup with C-style escapes, such as
+ * zenity and notify-send
+ * Examples:
+ * - "<b> & \\n" -> "&lt;b&gt; &amp; \\\\n"
+ */
+export function markupString(text: string): string {
+  return escapeHtml(text).replace(/\\/g, "\\\\");
+}
+
+/**
+ * Builds the command showing a dialog with one of the supported tools
+ */
+export function dialogCommand(
+  tool: "osascript" | "zenity" | "kdialog" | "notify-send",
   message: string,
-  title: string = "PR Parser",
-  type: "info" | "error" = "info",
-): Promise<void> {
-  if (!isRunningFromApp()) {
-    console.log(`${type === "error" ? "❌" : "✅"} ${title}: ${message}`);
-    return;
+  title: string,
+  type: DialogType,
+): NotifierCommand {
+  switch (tool) {
+    case "osascript": {
+      const icon = { info: "note", warning: "caution", error: "stop" }[type];
+      return {
+        command: tool,
+        args: [
+          "-e",
+          `display dialog ${appleScriptString(message)} with title ${
+            appleScriptString(title)
+          } buttons {"OK"} default button "OK" with icon ${icon}`,
+        ],
+      };
+    }
+    case "zenity":
+      return {
+        command: tool,
+        args: [
+          `--${type}`,
+          `--title=${title}`,
+          `--text=${markupString(message)}`,
+        ],
+      };
+    case "kdialog": {
+      const kind = { info: "--msgbox", warning: "--sorry", error: "--error" }[
+        type
+      ];
+      // <qt> forces rich text, so escaped entities always render
+      const text = `<qt>${escapeHtml(message).replace(/\n/g, "<br>")}</qt>`;
+      return { command: tool, args: ["--title", title, kind, text] };
+    }
+    case "notify-send":
+      return {
+        command: tool,
+        args: [
+          `--urgency=${type === "info" ? "normal" : "critical"}`,
+          "--app-name=PR Parser",
+          "--",
+          title.replace(/\\/g, "\\\\"),
+          markupString(message),
+        ],
+      };
   }
+}
 
-  const iconType = type === "error" ? "stop" : "note";
-  const script =
-    `display dialog "${message.replace(/"/g, "\\\"")}" with title "${title}" buttons {"OK"} default button "OK" with icon ${iconType}`;
+/**
+ * Builds the command showing a progress toast
+ */
+export function progressCommand(
+  tool: "osascript" | "notify-send",
+  message: string,
+): NotifierCommand {
+  if (tool === "osascript") {
+    return {
+      command: tool,
+      args: [
+        "-e",
+        `display notification ${
+          appleScriptString(message)
+        } with title "PR Parser"`,
+      ],
+    };
+  }
+  return {
+    command: tool,
+    args: [
+      "--app-name=PR Parser",
+      "--expire-time=2000",
+      "--",
+      "PR Parser",
+      markupString(message),
+    ],
+  };
+}
 
-  const process = new Deno.Command("osascript", {
-    args: ["-e", script],
-    stdout: "piped",
-    stderr: "piped",
-  });
+/**
+ * Builds the command sending the paste shortcut to the focused application
+ */
+export function pasteCommand(
+  tool: "osascript" | "xdotool" | "wtype",
+): NotifierCommand {
+  switch (tool) {
+    case "osascript":
+      return {
+        command: tool,
+        args: [
+          "-e",
+          `tell application "System Events" to keystroke "v" using command down`,
+        ],
+      };
+    case "xdotool":
+      return { command: tool, args: ["key", "--clearmodifiers", "ctrl+v"] };
+    case "wtype":
+      return { command: tool, args: ["-M", "ctrl", "v", "-m", "ctrl"] };
+  }
+}
 
-  await process.output();
+/**
+ * Creates a notifier printing to the terminal; pasting does nothing
+ */
+export function createConsoleNotifier(): Notifier {
+  return {
+    name: "console",
+    dialog: (message, title, type) => {
+      const emoji = { info: "✅", warning: "⚠️", error: "❌" }[type];
+      console.log(`${emoji} ${title}: ${message}`);
+      return Promise.resolve();
+    },
+    progress: (message) => {
+      console.log(message);
+      return Promise.resolve();
+    },
+    paste: () => Promise.resolve(),
+  };
 }
 
 /**
- * Shows a progress notification
+ * Creates a notifier using osascript
  */
-export async function showProgress(message: string): Promise<void> {
-  if (!isRunningFromApp()) {
-    console.log(message);
-    return;
+export function createMacNotifier(
+  run: (command: NotifierCommand) => Promise<boolean> = runNotifierCommand,
+): Notifier {
+  return {
+    name: "macos",
+    dialog: async (message, title, type) => {
+      await run(dialogCommand("osascript", message, title, type));
+    },
+    progress: async (message) => {
+      await run(progressCommand("osascript", message));
+    },
+    paste: async () => {
+      await run(pasteCommand("osascript"));
+    },
+  };
+}
+
+/**
+ * Creates a notifier for Linux desktops. Dialogs use zenity, then kdialog,
+ * then a notify-send notification; pasting uses wtype on Wayland and xdotool
+ * on X11, trying the other one when missing. Without any tool, messages are
+ * printed to the terminal.
+ */
+export function createLinuxNotifier(
+  run: (command: NotifierCommand) => Promise<boolean> = runNotifierCommand,
+  env: (key: string) => string | undefined = (key) => Deno.env.get(key),
+): Notifier {
+  const fallback = createConsoleNotifier();
+  const runFirst = async (commands: NotifierCommand[]) => {
+    for (const command of commands) {
+      if (await run(command)) return true;
+    }
+    return false;
+  };
+
+  return {
+    name: "linux",
+    dialog: async (message, title, type) => {
+      const shown = await runFirst(
+        (["zenity", "kdialog", "notify-send"] as const).map((tool) =>
+          dialogCommand(tool, message, title, type)
+        ),
+      );
+      if (!shown) await fallback.dialog(message, title, type);
+    },
+    progress: async (message) => {
+      if (!(await run(progressCommand("notify-send", message)))) {
+        await fallback.progress(message);
+      }
+    },
+    paste: async () => {
+      const tools = env("WAYLAND_DISPLAY")
+        ? ["wtype", "xdotool"] as const
+        : ["xdotool", "wtype"] as const;
+      await runFirst(tools.map(pasteCommand));
+    },
+  };
+}
+
+export type NotifierEvent =
+  | { kind: "dialog"; message: string; title: string; type: DialogType }
+  | { kind: "progress"; message: string }
+  | { kind: "paste" };
+
+/**
+ * A notifier keeping what it was asked to show, for tests
+ */
+export interface RecordingNotifier extends Notifier {
+  events: NotifierEvent[];
+}
+
+/**
+ * Creates a notifier recording its calls instead of showing them
+ */
+export function createRecordingNotifier(): RecordingNotifier {
+  const events: NotifierEvent[] = [];
+  return {
+    name: "recording",
+    events,
+    dialog: (message, title, type) => {
+      events.push({ kind: "dialog", message, title, type });
+      return Promise.resolve();
+    },
+    progress: (message) => {
+      events.push({ kind: "progress", message });
+      return Promise.resolve();
+    },
+    paste: () => {
+      events.push({ kind: "paste" });
+      return Promise.resolve();
+    },
+  };
+}
+
+/**
+ * Wraps a notifier to skip progress toasts, keeping dialogs and pasting
+ */
+export function createQuietNotifier(notifier: Notifier): Notifier {
+  return { ...notifier, progress: () => Promise.resolve() };
+}
+
+/**
+ * Creates a notifier by name
+ */
+export function createNotifier(name: NotifierName): Notifier {
+  switch (name) {
+    case "macos":
+      return createMacNotifier();
+    case "linux":
+      return createLinuxNotifier();
+    case "console":
+      return createConsoleNotifier();
   }
+}
 
-  const script =
-    `display notification "${message.replace(/"/g, "\\\"")}" with title "PR Parser"`;
+/**
+ * Picks the notifier for the current environment: the terminal unless
+ * running from the app, then the native tools of the OS
+ * Examples:
+ * - run from a terminal -> "console"
+ * - app on macOS -> "macos"
+ * - app on Linux -> "linux"
+ */
+export function detectNotifier(
+  os: string = Deno.build.os,
+  fromApp: boolean = isRunningFromApp(),
+): NotifierName {
+  if (!fromApp) {
+    return "console";
+  }
+  if (os === "darwin") {
+    return "macos";
+  }
+  return os === "linux" ? "linux" : "console";
+}
 
-  const process = new Deno.Command("osascript", {
-    args: ["-e", script],
-    stdout: "piped",
-    stderr: "piped",
-  });
+let activeNotifier: Notifier | undefined;
 
-  await process.output();
+/**
+ * Overrides the notifier used by showDialog/showProgress/pasteResult
+ */
+export function setNotifier(notifier: Notifier): void {
+  activeNotifier = notifier;
 }
 
 /**
- * Simulates Cmd+V to paste content
+ * Returns the active notifier, honoring the PR_PARSER_NOTIFIER environment
+ * variable before falling back to detection
  */
-export async function pasteResult(): Promise<void> {
-  if (!isRunningFromApp()) {
-    return;
+export function getNotifier(): Notifier {
+  if (activeNotifier) {
+    return activeNotifier;
   }
 
-  const script =
-    `tell application "System Events" to keystroke "v" using command down`;
+  const override = Deno.env.get("PR_PARSER_NOTIFIER");
+  if (override) {
+    if (!isNotifierName(override)) {
+      throw new Error(
+        `Unknown notifier "${override}" (expected one of: ${
+          NOTIFIERS.join(", ")
+        })`,
+      );
+    }
+    activeNotifier = createNotifier(override);
+  } else {
+    activeNotifier = createNotifier(detectNotifier());
+  }
+  return activeNotifier;
+}
 
-  const process = new Deno.Command("osascript", {
-    args: ["-e", script],
-    stdout: "piped",
-    stderr: "piped",
-  });
+/**
+ * Shows a dialog, or prints the message in the terminal
+ */
+export async function showDialog(
+  message: string,
+  title: string = "PR Parser",
+  type: DialogType = "info",
+): Promise<void> {
+  await getNotifier().dialog(message, title, type);
+}
 
-  await process.output();
+/**
+ * Shows a progress notification
+ */
+export async function showProgress(message: string): Promise<void> {
+  await getNotifier().progress(message);
+}
+
+/**
+ * Simulates Cmd+V (Ctrl+V on Linux) to paste content
+ */
+export async function pasteResult(): Promise<void> {
+  await getNotifier().paste();
 }
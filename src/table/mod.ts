@@ -1,99 +1,368 @@
-import type { ImageInfo } from "../types/mod.ts";
-import { formatCategoryTitle } from "../images/mod.ts";
+import type {
+  ImageGroup,
+  ImageInfo,
+  ImageOptions,
+  TableOptions,
+  TableRendererName,
+} from "../types/mod.ts";
+import {
+  compareImageOrder,
+  DEFAULT_IMAGE_OPTIONS,
+  formatCategoryTitle,
+  sectionTitles,
+  stateLabel,
+} from "../images/mod.ts";
+import { escapeHtml } from "../html/mod.ts";
+
+export const DEFAULT_TABLE_OPTIONS: TableOptions = {
+  renderer: "auto",
+  summary: "Click to expand...",
+  details: "closed",
+  columns: 2,
+  headers: true,
+};
+
+/** Width of images with no configured width and no width of their own */
+const DEFAULT_IMAGE_WIDTH = 400;
 
 /**
- * Generates HTML table from grouped images, preserving order
+ * Renders the size attributes of an image: the width configured for its
+ * state, else its original width and height, else the default width
+ * Examples:
+ * - (250, { width: 1170, height: 2532 }) -> 'width="250"'
+ * - ({ before: 250 }, { timing: "after", width: 300 }) -> 'width="300"'
+ * - (undefined, {}) -> 'width="400"'
+ */
+function sizeAttributes(
+  width: TableOptions["width"],
+  image: ImageInfo,
+): string {
+  const configured = typeof width === "number" ? width : width?.[image.timing];
+  if (configured !== undefined) return `width="${configured}"`;
+  if (image.width === undefined && image.height === undefined) {
+    return `width="${DEFAULT_IMAGE_WIDTH}"`;
+  }
+  return [
+    image.width !== undefined ? `width="${image.width}"` : "",
+    image.height !== undefined ? `height="${image.height}"` : "",
+  ].filter(Boolean).join(" ");
+}
+
+/**
+ * A run of standalone images, or a paired group, within a table
+ */
+type TableBlock =
+  | { standaloneImages: ImageInfo[] }
+  | { category: string; group: ImageGroup };
+
+/**
+ * Lays out standalone images and paired groups in their true order, split
+ * into titled sections when the images use more than one section
+ */
+function layoutSections(
+  standaloneImages: ImageInfo[],
+  pairedGroups: Map<string, ImageGroup>,
+): { title?: string; blocks: TableBlock[] }[] {
+  const items = [
+    ...standaloneImages.map((image) => ({ position: image, image })),
+    ...Array.from(pairedGroups, ([category, group]) => ({
+      position: group,
+      category,
+      group,
+    })),
+  ].sort((a, b) => compareImageOrder(a.position, b.position));
+
+  const titles = sectionTitles([
+    ...standaloneImages,
+    ...Array.from(pairedGroups.values())
+      .flatMap((group) => Object.values(group.images)),
+  ]);
+  const sectioned =
+    new Set(items.map(({ position }) => position.section ?? 0)).size > 1;
+
+  const sections: { title?: string; blocks: TableBlock[] }[] = [];
+  let currentSection: number | undefined;
+  for (const item of items) {
+    const section = item.position.section ?? 0;
+    if (sections.length === 0 || (sectioned && section !== currentSection)) {
+      sections.push({
+        title: sectioned ? titles.get(section) : undefined,
+        blocks: [],
+      });
+      currentSection = section;
+    }
+    const blocks = sections[sections.length - 1].blocks;
+    const last = blocks[blocks.length - 1];
+    if ("group" in item) {
+      blocks.push({ category: item.category, group: item.group });
+    } else if (last && "standaloneImages" in last) {
+      last.standaloneImages.push(item.image);
+    } else {
+      blocks.push({ standaloneImages: [item.image] });
+    }
+  }
+  return sections;
+}
+
+/**
+ * Generates HTML table from grouped images, preserving order. Standalone
+ * rows and paired groups are interleaved by order, and each section of
+ * "1.2"-style prefixes gets its own titled table.
  */
 export function generateTable(
   standaloneImages: ImageInfo[],
-  pairedGroups: Map<
-    string,
-    { before?: ImageInfo; after?: ImageInfo; order: number }
-  >,
+  pairedGroups: Map<string, ImageGroup>,
+  options: Partial<TableOptions> = {},
+  imageOptions: Partial<ImageOptions> = {},
 ): string {
-  let tableHtml =
-    "<details><summary>Click to expand...</summary>\n<table>\n";
+  const { states, labels } = { ...DEFAULT_IMAGE_OPTIONS, ...imageOptions };
+  const { width, summary, details, columns, headers } = {
+    ...DEFAULT_TABLE_OPTIONS,
+    ...options,
+  };
+  const imageCell = (image: ImageInfo) =>
+    image.mediaType === "video"
+      // GitHub only plays videos given as a bare URL in their own paragraph
+      ? `    <td>\n\n${escapeHtml(image.src)}\n\n</td>\n`
+      : `    <td><img src="${escapeHtml(image.src)}" alt="${
+        escapeHtml(image.alt)
+      }" ${sizeAttributes(width, image)}></td>\n`;
 
-  // Convert paired groups to array and sort by order
-  const sortedPairedGroups = Array.from(pairedGroups.entries())
-    .sort(([, a], [, b]) => a.order - b.order);
+  const renderBlocks = (blocks: TableBlock[]) => {
+    let tableHtml = "<table>\n";
 
-  // Standalone images are already sorted by order
+    for (const block of blocks) {
+      if ("standaloneImages" in block) {
+        // Standalone images, `columns` per row
+        for (let i = 0; i < block.standaloneImages.length; i += columns) {
+          const rowImages = block.standaloneImages.slice(i, i + columns);
+          const padding = columns - rowImages.length;
 
-  // First, add standalone images (max 2 per row)
-  if (standaloneImages.length > 0) {
-    for (let i = 0; i < standaloneImages.length; i += 2) {
-      tableHtml += "  <tr>\n";
+          // Title row, padded with empty cells on the last row
+          if (headers) {
+            tableHtml += "  <tr>\n";
+            for (const image of rowImages) {
+              tableHtml += `    <th>${
+                escapeHtml(formatCategoryTitle(image.category))
+              }</th>\n`;
+            }
+            tableHtml += "    <th></th>\n".repeat(padding);
+            tableHtml += "  </tr>\n";
+          }
 
-      // First image in the row
-      const image1 = standaloneImages[i];
-      const title1 = formatCategoryTitle(image1.category);
-      tableHtml += `    <th>${title1}</th>\n`;
-
-      // Second image in the row (if exists)
-      if (i + 1 < standaloneImages.length) {
-        const image2 = standaloneImages[i + 1];
-        const title2 = formatCategoryTitle(image2.category);
-        tableHtml += `    <th>${title2}</th>\n`;
-      } else {
-        tableHtml += "    <th></th>\n";
+          // Add image row
+          tableHtml += "  <tr>\n";
+          for (const image of rowImages) {
+            tableHtml += imageCell(image);
+          }
+          tableHtml += "    <td></td>\n".repeat(padding);
+          tableHtml += "  </tr>\n";
+        }
+        continue;
       }
 
-      tableHtml += "  </tr>\n";
+      // Paired group, one column per state
+      const { category, group } = block;
+      const categoryTitle = formatCategoryTitle(category);
+
+      if (headers) {
+        // Add main category header row with colspan
+        tableHtml += "  <tr>\n";
+        tableHtml += `    <th colspan="${states.length}">${
+          escapeHtml(categoryTitle)
+        }</th>\n`;
+        tableHtml += "  </tr>\n";
+
+        // Add sub-header row with the state labels, e.g. Before/After
+        tableHtml += "  <tr>\n";
+        for (const state of states) {
+          tableHtml += `    <th>${
+            escapeHtml(stateLabel(state, labels))
+          }</th>\n`;
+        }
+        tableHtml += "  </tr>\n";
+      }
 
       // Add image row
       tableHtml += "  <tr>\n";
-      tableHtml +=
-        `    <td><img src="${image1.src}" alt="${image1.alt}" width="400"></td>\n`;
-
-      if (i + 1 < standaloneImages.length) {
-        const image2 = standaloneImages[i + 1];
-        tableHtml +=
-          `    <td><img src="${image2.src}" alt="${image2.alt}" width="400"></td>\n`;
-      } else {
-        tableHtml += "    <td></td>\n";
+      for (const state of states) {
+        const image = group.images[state.keyword];
+        tableHtml += image ? imageCell(image) : "    <td></td>\n";
       }
-
       tableHtml += "  </tr>\n";
     }
+
+    return tableHtml + "</table>";
+  };
+
+  const sections = layoutSections(standaloneImages, pairedGroups);
+  if (sections.length === 0) {
+    sections.push({ blocks: [] });
   }
+  const open = details === "open" ? " open" : "";
+  return sections.map(({ title, blocks }) => {
+    const tableHtml = renderBlocks(blocks);
+    if (details === "none") {
+      return title === undefined
+        ? tableHtml
+        : `<h3>${escapeHtml(title)}</h3>\n${tableHtml}`;
+    }
+    const heading = title === undefined ? summary : escapeHtml(title);
+    return `<details${open}><summary>${heading}</summary>\n${tableHtml}</details>`;
+  }).join("\n");
+}
 
-  // Then, add paired groups (before/after) in order
-  for (const [category, group] of sortedPairedGroups) {
-    const categoryTitle = formatCategoryTitle(category);
+/**
+ * Escapes text placed in a Markdown table cell
+ */
+function escapeMarkdownCell(text: string): string {
+  return text.replace(/([\\|\[\]])/g, "\\$1");
+}
 
-    // Add main category header row with colspan
-    tableHtml += "  <tr>\n";
-    tableHtml += `    <th colspan="2">${categoryTitle}</th>\n`;
-    tableHtml += "  </tr>\n";
+/**
+ * Renders a Markdown image, wrapping sources that hold spaces in <...>
+ */
+function markdownImage(image: ImageInfo | undefined): string {
+  if (!image) return "";
+  const src = /[\s()]/.test(image.src) ? `<${image.src}>` : image.src;
+  // Table cells cannot hold a video player, so videos become links
+  if (image.mediaType === "video") {
+    return `[▶ ${escapeMarkdownCell(image.alt)}](${src})`;
+  }
+  return `![${escapeMarkdownCell(image.alt)}](${src})`;
+}
 
-    // Add sub-header row for Before/After
-    tableHtml += "  <tr>\n";
-    tableHtml += "    <th>Before</th>\n";
-    tableHtml += "    <th>After</th>\n";
-    tableHtml += "  </tr>\n";
+/**
+ * Generates a GitHub-flavored Markdown pipe table with the same layout as
+ * generateTable(). Markdown cells cannot span columns, so category titles sit
+ * in the first cell of their row, and header rows after the first are bold.
+ * Width, summary and details only apply to HTML.
+ */
+export function generateMarkdownTable(
+  standaloneImages: ImageInfo[],
+  pairedGroups: Map<string, ImageGroup>,
+  options: Partial<TableOptions> = {},
+  imageOptions: Partial<ImageOptions> = {},
+): string {
+  const { states, labels } = { ...DEFAULT_IMAGE_OPTIONS, ...imageOptions };
+  const { columns, headers } = { ...DEFAULT_TABLE_OPTIONS, ...options };
+  const rowWidth = Math.max(
+    standaloneImages.length > 0 ? columns : 0,
+    pairedGroups.size > 0 ? states.length : 0,
+  );
+  if (rowWidth === 0) {
+    return "";
+  }
 
-    // Add image row
-    tableHtml += "  <tr>\n";
+  return layoutSections(standaloneImages, pairedGroups)
+    .map(({ title, blocks }) => {
+      const table = renderMarkdownBlocks(blocks, rowWidth, {
+        columns,
+        headers,
+        states,
+        labels,
+      });
+      return title === undefined
+        ? table
+        : `### ${escapeMarkdownCell(title)}\n\n${table}`;
+    })
+    .join("\n\n");
+}
 
-    if (group.before) {
-      tableHtml +=
-        `    <td><img src="${group.before.src}" alt="${group.before.alt}" width="400"></td>\n`;
-    } else {
-      tableHtml += "    <td></td>\n";
-    }
+/**
+ * Renders the blocks of one section as a Markdown pipe table
+ */
+function renderMarkdownBlocks(
+  blocks: TableBlock[],
+  rowWidth: number,
+  { columns, headers, states, labels }:
+    & Pick<TableOptions, "columns" | "headers">
+    & Pick<ImageOptions, "states" | "labels">,
+): string {
+  const rows: { cells: string[]; header: boolean }[] = [];
+  const addRow = (cells: string[], header = false) =>
+    rows.push({ cells, header });
 
-    if (group.after) {
-      tableHtml +=
-        `    <td><img src="${group.after.src}" alt="${group.after.alt}" width="400"></td>\n`;
-    } else {
-      tableHtml += "    <td></td>\n";
+  // Markdown tables always start with a header row, left empty without headers
+  if (!headers) {
+    addRow([], true);
+  }
+
+  for (const block of blocks) {
+    if ("standaloneImages" in block) {
+      const { standaloneImages } = block;
+      for (let i = 0; i < standaloneImages.length; i += columns) {
+        const rowImages = standaloneImages.slice(i, i + columns);
+        if (headers) {
+          addRow(
+            rowImages.map((image) =>
+              escapeMarkdownCell(formatCategoryTitle(image.category))
+            ),
+            true,
+          );
+        }
+        addRow(rowImages.map(markdownImage));
+      }
+      continue;
     }
 
-    tableHtml += "  </tr>\n";
+    const { category, group } = block;
+    if (headers) {
+      addRow([escapeMarkdownCell(formatCategoryTitle(category))], true);
+      addRow(
+        states.map((state) => escapeMarkdownCell(stateLabel(state, labels))),
+        true,
+      );
+    }
+    addRow(states.map((state) => markdownImage(group.images[state.keyword])));
   }
 
-  tableHtml += "</table></details>";
+  // The first row becomes the Markdown header row
+  const lines = rows.map(({ cells, header }, index) => {
+    const padded = [...cells, ...Array(rowWidth - cells.length).fill("")]
+      .map((cell) => header && index > 0 && cell ? `**${cell}**` : cell);
+    return `| ${padded.join(" | ")} |`;
+  });
+  lines.splice(1, 0, `|${" --- |".repeat(rowWidth)}`);
+  return lines.join("\n");
+}
+
+/**
+ * Renders a screenshot table from grouped images
+ */
+export type TableRenderer = (
+  standaloneImages: ImageInfo[],
+  pairedGroups: Map<string, ImageGroup>,
+  options?: Partial<TableOptions>,
+  imageOptions?: Partial<ImageOptions>,
+) => string;
+
+export const TABLE_RENDERERS: Record<TableRendererName, TableRenderer> = {
+  html: generateTable,
+  markdown: generateMarkdownTable,
+};
 
-  return tableHtml;
+/**
+ * Renders a table with the renderer named in the options. In "auto" mode the
+ * output matches the syntax the images were written in.
+ * Examples:
+ * - renderer "auto", input "![1. Login](a.png)" -> Markdown pipe table
+ * - renderer "auto", input "<img ...>" -> HTML <details> table
+ * - renderer "html", input "![1. Login](a.png)" -> HTML <details> table
+ */
+export function renderTable(
+  standaloneImages: ImageInfo[],
+  pairedGroups: Map<string, ImageGroup>,
+  options: Partial<TableOptions> = {},
+  inputSyntax: TableRendererName = "html",
+  imageOptions: Partial<ImageOptions> = {},
+): string {
+  const renderer = options.renderer ?? DEFAULT_TABLE_OPTIONS.renderer;
+  const name = renderer === "auto" ? inputSyntax : renderer;
+  return TABLE_RENDERERS[name](
+    standaloneImages,
+    pairedGroups,
+    options,
+    imageOptions,
+  );
 }
@@ -0,0 +1,105 @@
+/**
+ * Values available to a template. Lists are rendered item by item.
+ */
+export type TemplateValues = Record<string, string | string[] | undefined>;
+
+const FILTERS: Record<string, (value: string) => string> = {
+  upper: (value) => value.toUpperCase(),
+  lower: (value) => value.toLowerCase(),
+  capitalize: (value) => value.charAt(0).toUpperCase() + value.slice(1),
+};
+
+// {name}, {name|filter}, {name:format} or {name|filter:format}, where the
+// format may itself hold simple {other} placeholders
+const PLACEHOLDER_PATTERN =
+  /\{(\w+)((?:\|\w+)*)(?::((?:[^{}]|\{\w+(?:\|\w+)*\})*))?\}/g;
+const SIMPLE_PLACEHOLDER_PATTERN = /\{(\w+)((?:\|\w+)*)\}/g;
+
+function applyFilters(value: string, filters: string): string {
+  return filters
+    .split("|")
+    .filter(Boolean)
+    .reduce((result, filter) => FILTERS[filter](result), value);
+}
+
+function toList(value: string | string[] | undefined): string[] {
+  if (value === undefined) return [];
+  return (Array.isArray(value) ? value : [value]).filter((item) => item !== "");
+}
+
+function renderSimple(text: string, values: TemplateValues): string {
+  return text.replace(
+    SIMPLE_PLACEHOLDER_PATTERN,
+    (_match, name: string, filters: string) =>
+      applyFilters(toList(values[name]).join(" "), filters),
+  );
+}
+
+/**
+ * Renders a template, dropping placeholders whose value is empty
+ * Examples:
+ * - "{ticket:[%]} {feature|capitalize}" with { ticket: "MB-80", feature: "fix" } -> "[MB-80] Fix"
+ * - "{ticket:[%]} {part:[PART-%]}" with { ticket: ["MB-1", "MB-2"] } -> "[MB-1] [MB-2]"
+ * - "feat{id:(%)}: {feature|lower}" with { feature: "Fix" } -> "feat: fix"
+ */
+export function renderTemplate(
+  template: string,
+  values: TemplateValues,
+): string {
+  return template.replace(
+    PLACEHOLDER_PATTERN,
+    (_match, name: string, filters: string, format: string | undefined) => {
+      const items = toList(values[name]).map((item) =>
+        applyFilters(item, filters)
+      );
+      if (format === undefined) {
+        return items.join(" ");
+      }
+      return items
+        .map((item) => renderSimple(format, values).replaceAll("%", () => item))
+        .join(" ");
+    },
+  );
+}
+
+/**
+ * Checks a template against the placeholders it may use, returning a
+ * description of the first problem found
+ */
+export function validateTemplate(
+  template: string,
+  placeholders: readonly string[],
+): string | undefined {
+  const check = (name: string, filters: string) => {
+    if (!placeholders.includes(name)) {
+      return `unknown placeholder {${name}} (expected one of: ${
+        placeholders.map((placeholder) => `{${placeholder}}`).join(", ")
+      })`;
+    }
+    const unknownFilter = filters
+      .split("|")
+      .filter(Boolean)
+      .find((filter) => !(filter in FILTERS));
+    if (unknownFilter) {
+      return `unknown filter "${unknownFilter}" (expected one of: ${
+        Object.keys(FILTERS).join(", ")
+      })`;
+    }
+    return undefined;
+  };
+
+  for (const match of template.matchAll(PLACEHOLDER_PATTERN)) {
+    const problem = check(match[1], match[2]);
+    if (problem) return problem;
+    for (const inner of (match[3] ?? "").matchAll(SIMPLE_PLACEHOLDER_PATTERN)) {
+      const innerProblem = check(inner[1], inner[2]);
+      if (innerProblem) return innerProblem;
+    }
+  }
+
+  const leftover = template.replace(PLACEHOLDER_PATTERN, "");
+  if (/[{}]/.test(leftover)) {
+    return "unbalanced braces";
+  }
+  return undefined;
+}
@@ -1,7 +1,169 @@
+/**
+ * Kind of media found in the input; GIFs render like images but animate
+ */
+export type MediaType = "image" | "gif" | "video";
+
 export interface ImageInfo {
   alt: string;
   src: string;
   category: string;
-  timing: "before" | "after" | "standalone";
+  /** Keyword of the comparison state, e.g. "before", or "standalone" */
+  timing: string;
   order: number; // For preserving custom ordering
+  mediaType: MediaType;
+  /** Section of "1.2"-style prefixes, where `order` is the item number */
+  section?: number;
+  /** Title of the section, when read back from a generated table */
+  sectionTitle?: string;
+  /** Original `width` attribute of the tag, when given */
+  width?: number;
+  /** Original `height` attribute of the tag, when given */
+  height?: number;
+}
+
+/**
+ * A comparison state detected as a filename suffix, such as "before"
+ */
+export interface ComparisonState {
+  /** Suffix matched case-insensitively, e.g. "dark" or "step 1" */
+  keyword: string;
+  /** Column header, defaults to the capitalized keyword */
+  label?: string;
+  /** Other words marking the same state, e.g. "old" or "avant" for "before" */
+  synonyms?: string[];
+}
+
+/**
+ * Images of one category, keyed by comparison state keyword
+ */
+export interface ImageGroup {
+  images: Record<string, ImageInfo>;
+  /** Earliest order of the images in the group */
+  order: number;
+  /** Section of the group, from "1.2"-style prefixes */
+  section?: number;
+}
+
+/**
+ * Options controlling how images are parsed and grouped
+ */
+export interface ImageOptions {
+  /** Ordered comparison states, one table column each */
+  states: ComparisonState[];
+  /** Column headers by state keyword, overriding the state labels */
+  labels: Record<string, string>;
+  /** Pair images sharing an order number even when their names differ */
+  pairByOrder: boolean;
+}
+
+/**
+ * A ticket reference such as MB-80
+ */
+export interface Ticket {
+  key: string;
+  /** Empty when the title only holds a key */
+  number: string;
+}
+
+/**
+ * A PR title split into its parts, before rendering
+ */
+export interface ParsedTitle {
+  tickets: Ticket[];
+  /** True for explicit "no ticket" titles */
+  noTicket: boolean;
+  /** Part number of a stacked PR, e.g. "2" */
+  part?: string;
+  /** Total number of parts when known, e.g. "3" for "part 2/3" */
+  partTotal?: string;
+  feature: string;
+  /** Problems worth reporting to the user, e.g. an unknown project key */
+  warnings: string[];
+}
+
+/**
+ * Options controlling how PR titles are formatted
+ */
+export interface TitleOptions {
+  /** Marker used when the title has no ticket, rendered as `[no-ticket]` */
+  noTicketLabel: string;
+  /** Label of the part suffix, rendered as `[PART-1]` */
+  partLabel: string;
+  /** Preset name (default, colon, conventional, plain) or custom template */
+  template: string;
+  /** Known project keys; when empty, any first two words form a ticket */
+  projectKeys: string[];
+  /** What to do when the title does not start with a known ticket */
+  unknownTicket: "no-ticket" | "warn";
+  /** Maximum edit distance when correcting a mistyped project key */
+  maxTypoDistance: number;
+  /** "separate" gives [MB-80] [MB-81], "combined" gives [MB-80, MB-81] */
+  multipleTickets: "separate" | "combined";
+}
+
+/**
+ * Output syntax of screenshot tables
+ */
+export type TableRendererName = "html" | "markdown";
+
+/**
+ * Options controlling how screenshot tables are rendered
+ */
+export interface TableOptions {
+  /** Renderer name, or "auto" to match the syntax of the input images */
+  renderer: TableRendererName | "auto";
+  /**
+   * Width of every image in pixels, or widths per state keyword or
+   * "standalone", such as `{ "before": 250, "after": 250 }` (HTML only).
+   * Images without a width here keep their own `width`/`height`, or get 400.
+   */
+  width?: number | Record<string, number>;
+  /** Text of the `<summary>` element (HTML only) */
+  summary: string;
+  /** "closed" or "open" `<details>` wrapper, or "none" for a bare table (HTML only) */
+  details: "closed" | "open" | "none";
+  /** Number of standalone images per row */
+  columns: number;
+  /** Whether title, category and state label header rows are shown */
+  headers: boolean;
+}
+
+/**
+ * Options controlling how branch names are generated from titles
+ */
+export interface BranchOptions {
+  /** "hyphen" gives MB-80-feature, "slash" gives MB-80/feature */
+  style: "hyphen" | "slash";
+  /** Maximum length of the branch name, cut at a word boundary */
+  maxLength: number;
+}
+
+/**
+ * Options controlling how changelogs are built from lists of PR titles
+ */
+export interface ChangelogOptions {
+  /** Top-level heading, left out when empty */
+  title: string;
+  /**
+   * Link of each ticket, e.g. "https://acme.atlassian.net/browse/{ticket}";
+   * tickets are not linked when empty
+   */
+  ticketUrl: string;
+  /** Heading of the section listing PRs without a ticket */
+  noTicketTitle: string;
+}
+
+/**
+ * Options controlling how PR descriptions are scaffolded from titles
+ */
+export interface DescriptionOptions {
+  /** Markdown template with placeholders such as {ticketLink} or {screenshots} */
+  template: string;
+  /**
+   * File holding the template, read in place of `template` by
+   * loadDescriptionTemplate() when set
+   */
+  templateFile?: string;
+  /** Link of each ticket, defaults to `changelog.ticketUrl` when empty */
+  ticketUrl: string;
 }